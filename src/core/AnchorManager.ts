@@ -0,0 +1,216 @@
+/**
+ * AnchorManager - Keeps placed objects attached to XR anchors or, as a fallback, to their planes
+ *
+ * A plane's origin isn't a stable reference: it moves as the plane grows and
+ * when another fragment becomes its largest. Objects on a plane therefore only
+ * follow corrections to the wall surface itself (its depth and tilt) since they
+ * were bound, keeping their place along the wall.
+ */
+
+import { Matrix4, Quaternion, Vector3 } from 'three';
+import { PlaneData } from '../types';
+import { getPlaneMatrix } from './PlaneGeometry';
+
+interface AnchorBinding {
+  anchor?: XRAnchor;
+  planeId?: string;
+  // Object transform in the anchor's space; on a plane, its world transform
+  // when the plane had `referencePose`
+  offset: Matrix4;
+  // Last known world pose of the anchor; on a plane, its pose when bound
+  referencePose: Matrix4;
+  // Latest pose of the plane
+  planePose?: Matrix4;
+  wasTracked: boolean;
+}
+
+export class AnchorManager {
+  private bindings: Map<string, AnchorBinding> = new Map();
+  private onAnchorLostCallback?: (objectId: string) => void;
+
+  /**
+   * Attach an object to an XR anchor
+   *
+   * @param anchorPose - World pose of the anchor at creation time
+   * @param objectMatrix - World transform of the object (without scale)
+   */
+  attachToAnchor(objectId: string, anchor: XRAnchor, anchorPose: Matrix4, objectMatrix: Matrix4, planeId?: string): void {
+    this.detach(objectId);
+    this.bindings.set(objectId, {
+      anchor,
+      planeId,
+      offset: anchorPose.clone().invert().multiply(objectMatrix),
+      referencePose: anchorPose.clone(),
+      wasTracked: false
+    });
+  }
+
+  /**
+   * Attach an object to a plane, following corrections to its filtered surface
+   */
+  attachToPlane(objectId: string, plane: PlaneData, objectMatrix: Matrix4): void {
+    this.detach(objectId);
+
+    const planePose = getPlaneMatrix(plane);
+    this.bindings.set(objectId, {
+      planeId: plane.id,
+      offset: objectMatrix.clone(),
+      referencePose: planePose,
+      planePose: planePose.clone(),
+      wasTracked: true
+    });
+  }
+
+  /**
+   * Re-express an object's new transform relative to its current anchor or plane
+   */
+  rebase(objectId: string, objectMatrix: Matrix4): void {
+    const binding = this.bindings.get(objectId);
+    if (!binding) return;
+
+    if (binding.anchor) {
+      binding.offset = binding.referencePose.clone().invert().multiply(objectMatrix);
+    } else {
+      binding.referencePose = binding.planePose?.clone() ?? binding.referencePose;
+      binding.offset = objectMatrix.clone();
+    }
+  }
+
+  /**
+   * Move an object's plane binding to another plane, or drop it
+   *
+   * Anchored objects keep their anchor and only change the fallback plane.
+   * Without a plane to follow, an unanchored object stays where it is.
+   */
+  reparent(objectId: string, plane: PlaneData | null, objectMatrix: Matrix4): void {
+    const binding = this.bindings.get(objectId);
+
+    if (binding?.anchor) {
+      binding.planeId = plane?.id;
+    } else if (plane) {
+      this.attachToPlane(objectId, plane, objectMatrix);
+    } else {
+      this.detach(objectId);
+    }
+  }
+
+  /**
+   * Resolve world transforms of all bound objects for this frame
+   */
+  update(frame: XRFrame, refSpace: XRReferenceSpace, planes: PlaneData[]): Map<string, Matrix4> {
+    const poses: Map<string, Matrix4> = new Map();
+    const planesById = new Map(planes.map(plane => [plane.id, plane]));
+
+    for (const [objectId, binding] of this.bindings.entries()) {
+      if (binding.anchor) {
+        const tracked = !frame.trackedAnchors || frame.trackedAnchors.has(binding.anchor);
+
+        if (tracked) {
+          const anchorPose = frame.getPose(binding.anchor.anchorSpace, refSpace);
+          if (anchorPose) {
+            binding.referencePose.fromArray(anchorPose.transform.matrix);
+            binding.wasTracked = true;
+            poses.set(objectId, binding.referencePose.clone().multiply(binding.offset));
+          }
+          continue;
+        }
+
+        if (binding.wasTracked) {
+          this.handleAnchorLost(objectId, binding, planesById);
+        }
+        continue;
+      }
+
+      const plane = binding.planeId ? planesById.get(binding.planeId) : undefined;
+      if (plane) {
+        binding.planePose = getPlaneMatrix(plane);
+        poses.set(objectId, followSurface(binding.referencePose, binding.planePose, binding.offset));
+      }
+    }
+
+    return poses;
+  }
+
+  /**
+   * Check whether an object is held by an XR anchor
+   */
+  isAnchored(objectId: string): boolean {
+    return !!this.bindings.get(objectId)?.anchor;
+  }
+
+  /**
+   * Release an object's anchor binding
+   */
+  detach(objectId: string): void {
+    const binding = this.bindings.get(objectId);
+    if (binding) {
+      binding.anchor?.delete();
+      this.bindings.delete(objectId);
+    }
+  }
+
+  /**
+   * Set callback for anchors that stop being tracked
+   */
+  onAnchorLost(callback: (objectId: string) => void): void {
+    this.onAnchorLostCallback = callback;
+  }
+
+  /**
+   * Delete all anchors
+   */
+  dispose(): void {
+    for (const objectId of Array.from(this.bindings.keys())) {
+      this.detach(objectId);
+    }
+  }
+
+  /**
+   * Fall back to plane-relative tracking once an anchor is lost
+   */
+  private handleAnchorLost(objectId: string, binding: AnchorBinding, planesById: Map<string, PlaneData>): void {
+    const objectMatrix = binding.referencePose.clone().multiply(binding.offset);
+    const plane = binding.planeId ? planesById.get(binding.planeId) : undefined;
+
+    binding.anchor?.delete();
+    binding.anchor = undefined;
+
+    if (plane) {
+      binding.referencePose = getPlaneMatrix(plane);
+      binding.planePose = binding.referencePose.clone();
+      binding.offset = objectMatrix;
+    } else {
+      // Nothing to follow - freeze the object where it was last seen
+      this.bindings.delete(objectId);
+    }
+
+    this.onAnchorLostCallback?.(objectId);
+  }
+}
+
+/**
+ * Move an object with a plane's surface from one pose to another
+ *
+ * The object tilts by the smallest rotation between the two normals, about
+ * the point beneath it, which then moves straight onto the new surface.
+ * Where the plane's origin sits, and how it's turned within the surface,
+ * make no difference.
+ */
+function followSurface(fromPlanePose: Matrix4, toPlanePose: Matrix4, objectMatrix: Matrix4): Matrix4 {
+  const fromNormal = new Vector3().setFromMatrixColumn(fromPlanePose, 1).normalize();
+  const toNormal = new Vector3().setFromMatrixColumn(toPlanePose, 1).normalize();
+  // Plane normals may point either way
+  if (toNormal.dot(fromNormal) < 0) toNormal.negate();
+  const fromOrigin = new Vector3().setFromMatrixPosition(fromPlanePose);
+  const toOrigin = new Vector3().setFromMatrixPosition(toPlanePose);
+
+  const position = new Vector3().setFromMatrixPosition(objectMatrix);
+  const foot = position.clone().addScaledVector(fromNormal, -fromNormal.dot(position.clone().sub(fromOrigin)));
+  const newFoot = foot.clone().addScaledVector(toNormal, -toNormal.dot(foot.clone().sub(toOrigin)));
+  const tilt = new Quaternion().setFromUnitVectors(fromNormal, toNormal);
+
+  return new Matrix4().makeTranslation(newFoot.x, newFoot.y, newFoot.z)
+    .multiply(new Matrix4().makeRotationFromQuaternion(tilt))
+    .multiply(new Matrix4().makeTranslation(-foot.x, -foot.y, -foot.z))
+    .multiply(objectMatrix);
+}
@@ -0,0 +1,132 @@
+/**
+ * ArtworkLoader - Turns a chosen artwork into a loadable URL with known pixel size
+ */
+
+import { ArtworkInfo, ArtworkSource } from '../types';
+import { isKTX2 } from './TexturePipeline';
+
+/** Bytes of a KTX2 file up to and including its pixel height */
+const KTX2_HEADER_BYTES = 28;
+const KTX2_IDENTIFIER = [0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Read an artwork's pixel size and give it a URL the renderer can load
+ *
+ * Files, blobs and bitmaps get an object URL; the caller owns it and should
+ * revoke it once nothing shows the artwork. They also get a content hash, so
+ * the same image chosen twice can be recognised.
+ */
+export async function loadArtwork(source: ArtworkSource): Promise<ArtworkInfo> {
+  if (typeof source === 'string') {
+    const { width, height } = isKTX2(source) ? await measureKTX2Url(source) : await measureImageUrl(source);
+    return createInfo(source, 'url', width, height);
+  }
+
+  if (typeof ImageBitmap !== 'undefined' && source instanceof ImageBitmap) {
+    const blob = await bitmapToBlob(source);
+    const info = createInfo(URL.createObjectURL(blob), 'bitmap', source.width, source.height);
+    info.blob = blob;
+    info.hash = await hashBlob(blob);
+    return info;
+  }
+
+  const blob = source as Blob;
+  if (blob.type && !blob.type.startsWith('image/')) {
+    throw new Error(`Artwork must be an image, got ${blob.type}`);
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob);
+  } catch {
+    throw new Error('Artwork file could not be decoded as an image');
+  }
+  const info = createInfo(URL.createObjectURL(blob), 'file', bitmap.width, bitmap.height);
+  bitmap.close();
+
+  if (blob instanceof File) {
+    info.name = blob.name;
+  }
+  info.blob = blob;
+  info.hash = await hashBlob(blob);
+  return info;
+}
+
+/**
+ * Resize a suggested artwork size to an aspect ratio, keeping its longer side
+ */
+export function fitToAspect(size: { width: number; height: number }, aspectRatio: number): { width: number; height: number } {
+  const longSide = Math.max(size.width, size.height);
+  return aspectRatio >= 1
+    ? { width: longSide, height: longSide / aspectRatio }
+    : { width: longSide * aspectRatio, height: longSide };
+}
+
+function createInfo(url: string, source: ArtworkInfo['source'], pixelWidth: number, pixelHeight: number): ArtworkInfo {
+  if (pixelWidth <= 0 || pixelHeight <= 0) {
+    throw new Error('Artwork has no pixels');
+  }
+  return { url, source, pixelWidth, pixelHeight, aspectRatio: pixelWidth / pixelHeight };
+}
+
+async function measureImageUrl(url: string): Promise<{ width: number; height: number }> {
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  image.src = url;
+
+  try {
+    await image.decode();
+  } catch {
+    throw new Error(`Could not load artwork from ${url}`);
+  }
+  return { width: image.naturalWidth, height: image.naturalHeight };
+}
+
+/**
+ * Read a KTX2 image's size from its header, which browsers can't decode
+ */
+async function measureKTX2Url(url: string): Promise<{ width: number; height: number }> {
+  let header: ArrayBuffer;
+  try {
+    // Servers that ignore the range send the whole file, which works too
+    const response = await fetch(url, { mode: 'cors', headers: { Range: `bytes=0-${KTX2_HEADER_BYTES - 1}` } });
+    if (!response.ok) throw new Error(response.statusText);
+    header = await response.arrayBuffer();
+  } catch {
+    throw new Error(`Could not load artwork from ${url}`);
+  }
+
+  const bytes = new Uint8Array(header);
+  if (bytes.length < KTX2_HEADER_BYTES || KTX2_IDENTIFIER.some((byte, i) => bytes[i] !== byte)) {
+    throw new Error(`Artwork at ${url} is not a KTX2 image`);
+  }
+  const view = new DataView(header);
+  return { width: view.getUint32(20, true), height: view.getUint32(24, true) };
+}
+
+/**
+ * SHA-256 of a blob's bytes, or undefined outside secure contexts
+ */
+async function hashBlob(blob: Blob): Promise<string | undefined> {
+  if (!globalThis.crypto?.subtle) return undefined;
+
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function bitmapToBlob(bitmap: ImageBitmap): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Could not encode artwork bitmap'));
+      }
+    }, 'image/png');
+  });
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { findOverlaps, findNearestFreeSpot, findNearestFreeOffset } from './Collision';
+import { WallBox } from './Snapping';
+
+const wall = { minU: -2, maxU: 2, minV: 0, maxV: 2 };
+
+// A 2 x 1 gallery of 0.4 m frames centered at (0, 1), 0.1 m apart
+const gallery: WallBox[] = [
+  { u: -0.25, v: 1, width: 0.4, height: 0.4 },
+  { u: 0.25, v: 1, width: 0.4, height: 0.4 }
+];
+
+// A frame already hanging under the right half of the gallery
+const existing: WallBox = { u: 0.3, v: 1, width: 0.3, height: 0.3 };
+
+describe('findNearestFreeOffset', () => {
+  it('leaves a group that overlaps nothing where it is', () => {
+    const offset = findNearestFreeOffset(gallery, [{ u: 1.5, v: 1, width: 0.3, height: 0.3 }], wall);
+
+    expect(offset?.x).toBe(0);
+    expect(offset?.y).toBe(0);
+  });
+
+  it('nudges a gallery laid over an existing frame as one', () => {
+    const offset = findNearestFreeOffset(gallery, [existing], wall)!;
+    const moved = gallery.map(box => ({ ...box, u: box.u + offset.x, v: box.v + offset.y }));
+
+    expect(offset.length()).toBeGreaterThan(0);
+    expect(moved.every(box => findOverlaps(box, [existing]).length === 0)).toBe(true);
+    // Frames keep their spacing
+    expect(moved[1].u - moved[0].u).toBeCloseTo(0.5, 9);
+    expect(moved[1].v).toBeCloseTo(moved[0].v, 9);
+    // The shortest way off is sideways, past the frame's left edge
+    expect(offset.x).toBeCloseTo(-0.31, 9);
+    expect(offset.y).toBe(0);
+  });
+
+  it('rejects a gallery with no free spot on the wall', () => {
+    const narrowWall = { minU: -0.5, maxU: 0.5, minV: 0.75, maxV: 1.25 };
+
+    expect(findNearestFreeOffset(gallery, [existing], narrowWall)).toBeNull();
+  });
+});
+
+describe('findNearestFreeSpot', () => {
+  it('moves a single box next to the one it overlaps', () => {
+    const spot = findNearestFreeSpot({ u: 0.2, v: 1, width: 0.4, height: 0.4 }, [existing], wall)!;
+
+    expect(spot.x).toBeCloseTo(-0.06, 9);
+    expect(spot.y).toBe(1);
+  });
+});
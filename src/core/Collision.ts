@@ -0,0 +1,104 @@
+/**
+ * Collision - Overlap detection and resolution between objects on a wall
+ *
+ * Works on outer bounds in wall space (u right, v up, meters).
+ */
+
+import { Vector2 } from 'three';
+import { WallBox } from './Snapping';
+
+/** Space left between a nudged object and the object it was moved off */
+const NUDGE_GAP = 0.01; // meters
+
+// Boxes that merely touch don't overlap
+const EPSILON = 1e-6;
+
+/**
+ * Check whether two boxes overlap
+ */
+export function boxesOverlap(a: WallBox, b: WallBox): boolean {
+  return Math.abs(a.u - b.u) < (a.width + b.width) / 2 - EPSILON &&
+    Math.abs(a.v - b.v) < (a.height + b.height) / 2 - EPSILON;
+}
+
+/**
+ * Indexes of the boxes a target overlaps
+ */
+export function findOverlaps(target: WallBox, others: WallBox[]): number[] {
+  return others
+    .map((other, index) => (boxesOverlap(target, other) ? index : -1))
+    .filter(index => index >= 0);
+}
+
+/**
+ * Closest center for the target where it overlaps nothing and stays within bounds
+ *
+ * Candidates put the target right next to an obstacle on one side, or tucked
+ * against two obstacles at once (one horizontally, one vertically).
+ *
+ * @returns The free center, or null if no candidate fits
+ */
+export function findNearestFreeSpot(
+  target: WallBox,
+  others: WallBox[],
+  bounds: { minU: number; maxU: number; minV: number; maxV: number }
+): Vector2 | null {
+  const offset = findNearestFreeOffset([target], others, bounds);
+  return offset ? offset.add(new Vector2(target.u, target.v)) : null;
+}
+
+/**
+ * Shortest offset that moves a group of boxes, all together, to where none
+ * overlaps the others and all stay within bounds
+ *
+ * Candidates put one of the targets right next to an obstacle on one side,
+ * or tucked against two obstacles at once.
+ *
+ * @returns The offset (zero if nothing overlaps), or null if no candidate fits
+ */
+export function findNearestFreeOffset(
+  targets: WallBox[],
+  others: WallBox[],
+  bounds: { minU: number; maxU: number; minV: number; maxV: number }
+): Vector2 | null {
+  const dus = [0];
+  const dvs = [0];
+  for (const target of targets) {
+    const halfWidth = target.width / 2;
+    const halfHeight = target.height / 2;
+    for (const other of others) {
+      dus.push(
+        other.u - other.width / 2 - NUDGE_GAP - halfWidth - target.u,
+        other.u + other.width / 2 + NUDGE_GAP + halfWidth - target.u
+      );
+      dvs.push(
+        other.v - other.height / 2 - NUDGE_GAP - halfHeight - target.v,
+        other.v + other.height / 2 + NUDGE_GAP + halfHeight - target.v
+      );
+    }
+  }
+
+  const fitsU = (du: number) => targets.every(target =>
+    target.u + du - target.width / 2 >= bounds.minU - EPSILON && target.u + du + target.width / 2 <= bounds.maxU + EPSILON
+  );
+  const fitsV = (dv: number) => targets.every(target =>
+    target.v + dv - target.height / 2 >= bounds.minV - EPSILON && target.v + dv + target.height / 2 <= bounds.maxV + EPSILON
+  );
+
+  let best: Vector2 | null = null;
+  let bestDistance = Infinity;
+
+  for (const du of dus.filter(fitsU)) {
+    for (const dv of dvs.filter(fitsV)) {
+      const distance = Math.hypot(du, dv);
+      if (distance >= bestDistance) continue;
+
+      if (targets.every(target => findOverlaps({ ...target, u: target.u + du, v: target.v + dv }, others).length === 0)) {
+        best = new Vector2(du, dv);
+        bestDistance = distance;
+      }
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { CommandHistory, Command } from './CommandHistory';
+import { HistoryState } from '../types';
+
+/**
+ * A command that sets `state.value` and records each undo and redo in `log`
+ */
+function setValue(state: { value: number }, log: string[], from: number, to: number): Command {
+  state.value = to;
+  return {
+    label: `Set ${to}`,
+    undo: () => {
+      state.value = from;
+      log.push(`undo ${to}`);
+    },
+    redo: () => {
+      state.value = to;
+      log.push(`redo ${to}`);
+    }
+  };
+}
+
+describe('CommandHistory', () => {
+  it('undoes and redoes in order', () => {
+    const history = new CommandHistory(10);
+    const state = { value: 0 };
+    const log: string[] = [];
+
+    history.push(setValue(state, log, 0, 1));
+    history.push(setValue(state, log, 1, 2));
+
+    expect(history.undo()).toBe(true);
+    expect(state.value).toBe(1);
+    expect(history.undo()).toBe(true);
+    expect(state.value).toBe(0);
+    expect(history.undo()).toBe(false);
+
+    expect(history.redo()).toBe(true);
+    expect(history.redo()).toBe(true);
+    expect(history.redo()).toBe(false);
+    expect(state.value).toBe(2);
+    expect(log).toEqual(['undo 2', 'undo 1', 'redo 1', 'redo 2']);
+  });
+
+  it('drops the redo stack when a new command is pushed', () => {
+    const history = new CommandHistory(10);
+    const state = { value: 0 };
+
+    history.push(setValue(state, [], 0, 1));
+    history.undo();
+    history.push(setValue(state, [], 0, 5));
+
+    expect(history.canRedo()).toBe(false);
+    expect(history.getState().undoLabel).toBe('Set 5');
+  });
+
+  it('forgets the oldest commands past its depth', () => {
+    const history = new CommandHistory(2);
+    const state = { value: 0 };
+
+    [1, 2, 3].forEach(value => history.push(setValue(state, [], value - 1, value)));
+
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(false);
+    expect(state.value).toBe(1);
+  });
+
+  it('undoes nested batches as one step, in reverse', () => {
+    const history = new CommandHistory(10);
+    const state = { value: 0 };
+    const log: string[] = [];
+
+    history.beginBatch('Outer');
+    history.push(setValue(state, log, 0, 1));
+    history.beginBatch('Inner');
+    history.push(setValue(state, log, 1, 2));
+    history.endBatch();
+    history.push(setValue(state, log, 2, 3));
+    history.endBatch();
+
+    expect(history.getState().undoLabel).toBe('Outer');
+    history.undo();
+    expect(state.value).toBe(0);
+    expect(history.canUndo()).toBe(false);
+    expect(log).toEqual(['undo 3', 'undo 2', 'undo 1']);
+
+    history.redo();
+    expect(state.value).toBe(3);
+  });
+
+  it('records nothing for an empty batch', () => {
+    const history = new CommandHistory(10);
+
+    history.beginBatch('Empty');
+    history.endBatch();
+
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('ignores commands pushed while undoing or redoing', () => {
+    const history = new CommandHistory(10);
+    const state = { value: 0 };
+    const command = setValue(state, [], 0, 1);
+    const undo = command.undo;
+    command.undo = () => {
+      undo();
+      history.push(setValue(state, [], 1, 0));
+    };
+
+    history.push(command);
+    history.undo();
+
+    expect(history.canUndo()).toBe(false);
+    expect(history.canRedo()).toBe(true);
+  });
+
+  it('reports state changes', () => {
+    const history = new CommandHistory(10);
+    const states: HistoryState[] = [];
+    history.onChanged(state => states.push(state));
+
+    history.push(setValue({ value: 0 }, [], 0, 1));
+    history.undo();
+    history.clear();
+
+    expect(states).toEqual([
+      { canUndo: true, canRedo: false, undoLabel: 'Set 1', redoLabel: undefined },
+      { canUndo: false, canRedo: true, undoLabel: undefined, redoLabel: 'Set 1' },
+      { canUndo: false, canRedo: false, undoLabel: undefined, redoLabel: undefined }
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * CommandHistory - Bounded undo/redo stack of reversible scene commands
+ */
+
+import { HistoryState } from '../types';
+
+export interface Command {
+  label: string;
+  undo(): void;
+  redo(): void;
+}
+
+/**
+ * Several commands undone and redone as one step
+ */
+class BatchCommand implements Command {
+  constructor(public label: string, private commands: Command[]) {}
+
+  undo(): void {
+    for (let i = this.commands.length - 1; i >= 0; i--) {
+      this.commands[i].undo();
+    }
+  }
+
+  redo(): void {
+    this.commands.forEach(command => command.redo());
+  }
+}
+
+export class CommandHistory {
+  private undoStack: Command[] = [];
+  private redoStack: Command[] = [];
+  private maxDepth: number;
+  private batchLabel?: string;
+  private batchCommands: Command[] = [];
+  private batchDepth = 0;
+  private isReplaying = false;
+  private onChangedCallback?: (state: HistoryState) => void;
+
+  constructor(maxDepth: number) {
+    this.maxDepth = Math.max(0, maxDepth);
+  }
+
+  /**
+   * Record a command that has already been applied
+   */
+  push(command: Command): void {
+    // Commands triggered while undoing or redoing are part of that step
+    if (this.isReplaying) return;
+
+    if (this.batchDepth > 0) {
+      this.batchCommands.push(command);
+      return;
+    }
+
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.maxDepth) {
+      this.undoStack.splice(0, this.undoStack.length - this.maxDepth);
+    }
+    this.redoStack = [];
+    this.notify();
+  }
+
+  /**
+   * Start grouping commands into one undo step; batches may nest
+   */
+  beginBatch(label: string): void {
+    if (this.batchDepth === 0) {
+      this.batchLabel = label;
+      this.batchCommands = [];
+    }
+    this.batchDepth++;
+  }
+
+  /**
+   * Close the current batch, recording it if anything happened inside
+   */
+  endBatch(): void {
+    if (this.batchDepth === 0) return;
+
+    this.batchDepth--;
+    if (this.batchDepth > 0) return;
+
+    const commands = this.batchCommands;
+    this.batchCommands = [];
+    if (commands.length > 0) {
+      this.push(new BatchCommand(this.batchLabel ?? 'Batch', commands));
+    }
+  }
+
+  /**
+   * Revert the most recent command
+   *
+   * @returns false if there was nothing to undo
+   */
+  undo(): boolean {
+    const command = this.undoStack.pop();
+    if (!command) return false;
+
+    this.replay(() => command.undo());
+    this.redoStack.push(command);
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Re-apply the most recently undone command
+   *
+   * @returns false if there was nothing to redo
+   */
+  redo(): boolean {
+    const command = this.redoStack.pop();
+    if (!command) return false;
+
+    this.replay(() => command.redo());
+    this.undoStack.push(command);
+    this.notify();
+    return true;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  getState(): HistoryState {
+    return {
+      canUndo: this.canUndo(),
+      canRedo: this.canRedo(),
+      undoLabel: this.undoStack[this.undoStack.length - 1]?.label,
+      redoLabel: this.redoStack[this.redoStack.length - 1]?.label
+    };
+  }
+
+  /**
+   * Forget all recorded commands
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notify();
+  }
+
+  /**
+   * Set callback for changes to the undo/redo state
+   */
+  onChanged(callback: (state: HistoryState) => void): void {
+    this.onChangedCallback = callback;
+  }
+
+  private replay(action: () => void): void {
+    this.isReplaying = true;
+    try {
+      action();
+    } finally {
+      this.isReplaying = false;
+    }
+  }
+
+  private notify(): void {
+    this.onChangedCallback?.(this.getState());
+  }
+}
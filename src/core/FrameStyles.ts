@@ -0,0 +1,202 @@
+/**
+ * FrameStyles - Registry of frame mouldings and the geometry built from them
+ *
+ * A frame is its style's cross-section profile extruded around the artwork,
+ * with 45° mitres at the corners.
+ */
+
+import { BufferGeometry, Float32BufferAttribute, Vector3 } from 'three';
+import { FrameStyle } from '../types';
+
+/** Style used for frames whose style isn't registered */
+export const DEFAULT_FRAME_STYLE = 'modern';
+
+const frameStyles: Map<string, FrameStyle> = new Map();
+
+const builtInStyles: FrameStyle[] = [
+  {
+    name: 'modern',
+    profile: [[0, 0.75], [0.08, 1], [0.92, 1], [1, 0.9]],
+    width: 0.03,
+    depth: 0.02,
+    rabbet: { width: 0.005, depth: 0.005 },
+    material: { metalness: 0.1, roughness: 0.3, clearcoat: 0.8, clearcoatRoughness: 0.2 }
+  },
+  {
+    name: 'minimal',
+    profile: [[0, 1], [1, 1]],
+    width: 0.015,
+    depth: 0.02,
+    rabbet: { width: 0.004, depth: 0.004 },
+    material: { metalness: 0, roughness: 0.6 }
+  },
+  {
+    name: 'classic',
+    // Cove rising from the sight edge to a rounded bead at the outside
+    profile: [
+      [0, 0.55], [0.1, 0.6], [0.25, 0.7], [0.4, 0.75], [0.55, 0.85],
+      [0.7, 0.95], [0.8, 1], [0.9, 0.97], [0.96, 0.88], [1, 0.75]
+    ],
+    width: 0.045,
+    depth: 0.03,
+    rabbet: { width: 0.006, depth: 0.012 },
+    material: { metalness: 0, roughness: 0.45, clearcoat: 0.5, clearcoatRoughness: 0.3 }
+  },
+  {
+    name: 'ornate-gold',
+    // Inner bead, sweeping cove, raised ridge and a stepped outer lip
+    profile: [
+      [0, 0.5], [0.04, 0.62], [0.08, 0.58], [0.14, 0.52], [0.24, 0.6], [0.34, 0.74],
+      [0.44, 0.86], [0.5, 0.95], [0.56, 1], [0.62, 0.95], [0.66, 0.85], [0.72, 0.88],
+      [0.8, 0.92], [0.86, 0.84], [0.9, 0.86], [0.95, 0.8], [1, 0.65]
+    ],
+    width: 0.08,
+    depth: 0.045,
+    rabbet: { width: 0.008, depth: 0.02 },
+    material: { metalness: 1, roughness: 0.28, clearcoat: 0.3, clearcoatRoughness: 0.4 }
+  },
+  {
+    name: 'thin-metal',
+    profile: [[0, 0.9], [0.2, 1], [0.8, 1], [1, 0.9]],
+    width: 0.008,
+    depth: 0.02,
+    rabbet: { width: 0.003, depth: 0.003 },
+    material: { metalness: 0.9, roughness: 0.25 }
+  },
+  {
+    name: 'floating-canvas',
+    // Low ledge in the shadow gap around the canvas, then a thin outer lip
+    profile: [[0, 0.1], [0.45, 0.1], [0.45, 1], [1, 1]],
+    width: 0.014,
+    depth: 0.04,
+    rabbet: { width: -0.006, depth: 0.004 },
+    material: { metalness: 0, roughness: 0.5 }
+  },
+  {
+    name: 'deep-box',
+    profile: [[0, 1], [1, 1]],
+    width: 0.025,
+    depth: 0.06,
+    rabbet: { width: 0.005, depth: 0.04 },
+    material: { metalness: 0, roughness: 0.55 }
+  }
+];
+
+builtInStyles.forEach(registerFrameStyle);
+
+/**
+ * Add a frame style, replacing any registered style with the same name
+ */
+export function registerFrameStyle(style: FrameStyle): void {
+  if (style.profile.length < 2) {
+    throw new Error(`Frame style ${style.name} needs at least two profile points`);
+  }
+  if (style.profile.some(([x, y]) => x < 0 || x > 1 || y < 0 || y > 1)) {
+    throw new Error(`Frame style ${style.name} has profile points outside 0..1`);
+  }
+  if (style.width <= 0 || style.depth <= 0 || style.width <= style.rabbet.width) {
+    throw new Error(`Frame style ${style.name} has no visible moulding`);
+  }
+  if (style.rabbet.depth < 0 || style.rabbet.depth >= style.depth) {
+    throw new Error(`Frame style ${style.name} puts the artwork outside the frame's depth`);
+  }
+
+  frameStyles.set(style.name, style);
+}
+
+/**
+ * Get a registered style, falling back to the default for unknown names
+ */
+export function getFrameStyle(name: string): FrameStyle {
+  return frameStyles.get(name) ?? frameStyles.get(DEFAULT_FRAME_STYLE)!;
+}
+
+/**
+ * Names of all registered styles
+ */
+export function listFrameStyles(): string[] {
+  return Array.from(frameStyles.keys());
+}
+
+/**
+ * Visible moulding added on each side of the artwork, in meters
+ */
+export function getFrameBorder(style: FrameStyle): number {
+  return style.width - style.rabbet.width;
+}
+
+/**
+ * Build the moulding for a piece of artwork
+ *
+ * The geometry's back is at z = 0 and its front at z = style.depth. Each side
+ * is a strip per profile segment, cut on the diagonal at the corners. Texture
+ * coordinates are in meters: u along the side, v around the profile.
+ */
+export function createFrameGeometry(style: FrameStyle, artworkWidth: number, artworkHeight: number): BufferGeometry {
+  // Close the contour down to the wall at both edges
+  const contour: [number, number][] = [[0, 0], ...style.profile, [1, 0]].map(
+    ([x, y]) => [x * style.width, y * style.depth] as [number, number]
+  );
+
+  // Distance around the contour to each point, for texture coordinates
+  const contourDistance = [0];
+  for (let i = 1; i < contour.length; i++) {
+    const [x0, y0] = contour[i - 1];
+    const [x1, y1] = contour[i];
+    contourDistance.push(contourDistance[i - 1] + Math.hypot(x1 - x0, y1 - y0));
+  }
+
+  const halfWidth = artworkWidth / 2 - style.rabbet.width;
+  const halfHeight = artworkHeight / 2 - style.rabbet.width;
+
+  // Outward direction, direction along the side, and half extents of the sight opening
+  const sides = [
+    { outward: new Vector3(0, 1, 0), along: new Vector3(1, 0, 0), across: halfHeight, length: halfWidth },
+    { outward: new Vector3(0, -1, 0), along: new Vector3(-1, 0, 0), across: halfHeight, length: halfWidth },
+    { outward: new Vector3(1, 0, 0), along: new Vector3(0, -1, 0), across: halfWidth, length: halfHeight },
+    { outward: new Vector3(-1, 0, 0), along: new Vector3(0, 1, 0), across: halfWidth, length: halfHeight }
+  ];
+
+  const positions: number[] = [];
+  const uvs: number[] = [];
+  const edge = new Vector3();
+  const normal = new Vector3();
+  const expected = new Vector3();
+
+  for (const side of sides) {
+    // Point on the side at a contour offset, at either end of the mitre
+    const point = ([offset, height]: [number, number], end: -1 | 1) =>
+      new Vector3()
+        .addScaledVector(side.outward, side.across + offset)
+        .addScaledVector(side.along, end * (side.length + offset))
+        .setZ(height);
+
+    for (let i = 0; i < contour.length; i++) {
+      const a = contour[i];
+      const b = contour[(i + 1) % contour.length];
+      if (a[0] === b[0] && a[1] === b[1]) continue;
+
+      const quad = [point(a, -1), point(a, 1), point(b, 1), point(b, -1)];
+      const v = [contourDistance[i], contourDistance[i], contourDistance[(i + 1) % contour.length], contourDistance[(i + 1) % contour.length]];
+
+      // The contour runs clockwise in (offset, height), so its outside is to the left
+      expected.copy(side.outward).multiplyScalar(-(b[1] - a[1])).setZ(b[0] - a[0]);
+      normal.subVectors(quad[1], quad[0]).cross(edge.subVectors(quad[3], quad[0]));
+      if (normal.dot(expected) < 0) {
+        quad.reverse();
+        v.reverse();
+      }
+
+      for (const index of [0, 1, 2, 0, 2, 3]) {
+        positions.push(quad[index].x, quad[index].y, quad[index].z);
+        uvs.push(quad[index].dot(side.along), v[index]);
+      }
+    }
+  }
+
+  const geometry = new BufferGeometry();
+  geometry.setAttribute('position', new Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('uv', new Float32BufferAttribute(uvs, 2));
+  geometry.computeVertexNormals();
+  return geometry;
+}
@@ -2,36 +2,112 @@
  * FramerlyAREngine - Main AR engine orchestrating all components
  */
 
-import { Vector3, Euler } from 'three';
+import { Vector3, Euler, Matrix4, Quaternion, MathUtils, Ray } from 'three';
 import { PlaneTracker } from './PlaneTracker';
-import { Renderer } from './Renderer';
+import { Renderer, FRAME_DEPTH, NEON_DEPTH } from './Renderer';
+import { registerFrameStyle, listFrameStyles } from './FrameStyles';
 import { AIConnector } from './AIConnector';
+import { AnchorManager } from './AnchorManager';
+import { SceneStore } from './SceneStore';
+import { loadArtwork, fitToAspect } from './ArtworkLoader';
+import { computePrintQuality, getMaxPrintSize } from './PrintQuality';
+import { CommandHistory } from './CommandHistory';
+import { computeGalleryLayout } from './GalleryLayout';
+import { snapToWall, WallBox } from './Snapping';
+import { findOverlaps, findNearestFreeSpot, findNearestFreeOffset } from './Collision';
+import { MeasurementLine, formatLength, formatSize } from './MeasurementOverlay';
+import { serializeScene, parseScene, deserializeObject, getArtworkHashes } from './SceneSerializer';
+import {
+  findPlaneForPoint,
+  getWallExtents,
+  getWallReferenceMatrix,
+  getFloorHeight,
+  getCeilingHeight,
+  getPolygonArea,
+  toWallSpace,
+  fromWallSpace
+} from './PlaneGeometry';
 import { 
   ARMode, 
   FrameData, 
+  FrameStyle,
   NeonData, 
   AREngineConfig,
   TrackingState,
   PlaneData,
+  HitPose,
+  PlacementRejection,
+  PlacementRejectionReason,
+  SerializedScene,
+  SavedSceneInfo,
+  HistoryState,
+  GalleryArtwork,
+  GalleryLayoutOptions,
+  WallExtents,
+  MeasurementUnit,
+  ObjectConflict,
+  ArtworkSource,
+  ArtworkInfo,
+  ArtworkLoadProgress,
+  PrintQuality,
+  PrintQualityWarning,
   WebXRSupport,
-  CameraPermissionState
+  CameraPermissionState,
+  TextureStats,
+  QualityChange,
+  QualityTierName
 } from '../types';
 
 export class FramerlyAREngine {
+  /** Slot the current layout is saved to when the session stops */
+  static readonly AUTOSAVE_SLOT = 'autosave';
+
   private planeTracker: PlaneTracker;
   private renderer: Renderer;
   private aiConnector: AIConnector;
+  private anchorManager: AnchorManager;
+  private sceneStore: SceneStore;
+  private history: CommandHistory;
   private config: AREngineConfig;
   
   private currentMode: ARMode = ARMode.FRAME;
   private isInitialized = false;
   private isRunning = false;
   private arObjects: Map<string, FrameData | NeonData> = new Map();
+  // Wall-relative scene waiting for a wall to be detected
+  private pendingScene?: SerializedScene;
+  private selectedObjectId: string | null = null;
+  // Artwork new frames are placed with
+  private currentArtwork: ArtworkInfo | null = null;
+  // Images of chosen artworks by content hash, with their object URL while
+  // a frame or the current artwork uses it; undone frames recreate the URL
+  private uploadedArtwork: Map<string, { blob: Blob; url?: string }> = new Map();
+  // Object URLs of artworks without a hash, kept until disposed
+  private unhashedArtworkUrls: string[] = [];
+  private isArtworkReleaseScheduled = false;
+  private isMeasuring = false;
+  // Last conflict reported per object, so repeated previews don't repeat it
+  private reportedConflicts: Map<string, string> = new Map();
+  // State of objects before their current preview, recorded on commit
+  private previewOrigins: Map<string, FrameData | NeonData> = new Map();
   
   // Event callbacks
   private onTrackingStateCallback?: (state: TrackingState) => void;
   private onPlaneDetectedCallback?: (plane: PlaneData) => void;
+  private onPlaneUpdatedCallback?: (plane: PlaneData) => void;
+  private onPlaneRemovedCallback?: (plane: PlaneData) => void;
+  private onPlanesMergedCallback?: (plane: PlaneData, mergedPlaneIds: string[]) => void;
   private onObjectPlacedCallback?: (object: FrameData | NeonData) => void;
+  private onPlacementRejectedCallback?: (rejection: PlacementRejection) => void;
+  private onAnchorLostCallback?: (object: FrameData | NeonData) => void;
+  private onSceneRestoredCallback?: (objectIds: string[]) => void;
+  private onHistoryChangedCallback?: (state: HistoryState) => void;
+  private onSelectionChangedCallback?: (object: FrameData | NeonData | null) => void;
+  private onObjectConflictCallback?: (conflict: ObjectConflict) => void;
+  private onArtworkChangedCallback?: (artwork: ArtworkInfo) => void;
+  private onPrintQualityWarningCallback?: (warning: PrintQualityWarning) => void;
+  private onArtworkProgressCallback?: (progress: ArtworkLoadProgress) => void;
+  private onQualityChangedCallback?: (change: QualityChange) => void;
   private onErrorCallback?: (error: Error) => void;
 
   constructor(canvas: HTMLCanvasElement, config: Partial<AREngineConfig> = {}) {
@@ -41,11 +117,40 @@ export class FramerlyAREngine {
       maxPlanes: 10,
       trackingUpdateRate: 60,
       poseFilter: {
+        strategy: 'exponential',
         positionSmoothingFactor: 0.8,
         rotationSmoothingFactor: 0.9,
         maxJitterThreshold: 0.01,
-        stabilizationTime: 1000
+        stabilizationTime: 1000,
+        outlierDistance: 0.5,
+        oneEuro: { minCutoff: 1.0, beta: 0.5, derivativeCutoff: 1.0 },
+        kalman: { processNoise: 0.05, measurementNoise: 0.0004 }
+      },
+      placement: {
+        overhangPolicy: 'clamp',
+        overlapPolicy: 'nudge'
+      },
+      history: {
+        maxDepth: 50
+      },
+      gallery: {
+        eyeLevelHeight: 1.45,
+        defaultGap: 0.08
       },
+      snapping: {
+        enabled: true,
+        threshold: 0.03,
+        hangingHeight: 1.45
+      },
+      printQuality: {
+        excellentDpi: 300,
+        minimumDpi: 150
+      },
+      textures: {
+        memoryBudgetMB: 256,
+        maxTextureSize: 4096
+      },
+      units: 'cm',
       rendering: {
         shadowsEnabled: true,
         environmentLighting: true,
@@ -55,9 +160,12 @@ export class FramerlyAREngine {
     };
 
     // Initialize core components
-    this.planeTracker = new PlaneTracker();
+    this.planeTracker = new PlaneTracker(this.config);
     this.renderer = new Renderer(canvas, this.config);
     this.aiConnector = new AIConnector();
+    this.anchorManager = new AnchorManager();
+    this.sceneStore = new SceneStore();
+    this.history = new CommandHistory(this.config.history.maxDepth);
 
     // Setup event handlers
     this.setupEventHandlers();
@@ -84,8 +192,9 @@ export class FramerlyAREngine {
         throw new Error('WebXR AR not supported on this device');
       }
 
-      // Initialize plane tracker
+      // Initialize plane tracker, then render into its session
       await this.planeTracker.initializeXR();
+      await this.renderer.setXRSession(this.planeTracker.getXRSession()!);
       
       this.isInitialized = true;
       console.log('Framerly AR Engine initialized successfully');
@@ -122,6 +231,14 @@ export class FramerlyAREngine {
    */
   async stop(): Promise<void> {
     this.isRunning = false;
+    this.renderer.setAnimationLoop(null);
+
+    // Save while the walls are still known - they go away with the session
+    if (this.arObjects.size > 0) {
+      await this.saveScene(FramerlyAREngine.AUTOSAVE_SLOT)
+        .catch(error => console.warn('Autosave failed:', error));
+    }
+
     await this.planeTracker.endSession();
     console.log('AR session stopped');
   }
@@ -143,24 +260,114 @@ export class FramerlyAREngine {
     return this.currentMode;
   }
 
+  /**
+   * Choose the artwork for frames placed from now on
+   *
+   * Accepts an image URL, a File or Blob (e.g. from the user's photo
+   * gallery) or an ImageBitmap. The image's pixel size sets the frame's
+   * aspect ratio.
+   */
+  async setArtwork(source: ArtworkSource): Promise<ArtworkInfo> {
+    try {
+      const artwork = await loadArtwork(source);
+      if (artwork.hash && artwork.blob) {
+        // The same image chosen again reuses its URL, and so its cached texture
+        const uploaded = this.uploadedArtwork.get(artwork.hash);
+        if (uploaded) {
+          URL.revokeObjectURL(artwork.url);
+          artwork.url = this.getUploadedArtworkUrl(artwork.hash)!;
+        } else {
+          this.uploadedArtwork.set(artwork.hash, { blob: artwork.blob, url: artwork.url });
+        }
+      } else if (artwork.source !== 'url') {
+        this.unhashedArtworkUrls.push(artwork.url);
+      }
+
+      this.currentArtwork = artwork;
+      this.scheduleArtworkRelease();
+      this.onArtworkChangedCallback?.(artwork);
+      return artwork;
+    } catch (error) {
+      console.error('Failed to load artwork:', error);
+      this.onErrorCallback?.(error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the artwork new frames are placed with, or null if none was chosen
+   */
+  getArtwork(): ArtworkInfo | null {
+    return this.currentArtwork;
+  }
+
+  /**
+   * Print resolution of a frame's artwork at its current size
+   *
+   * @returns The quality, or null if the object isn't a frame or its image
+   *   hasn't loaded yet
+   */
+  getPrintQuality(objectId: string): PrintQuality | null {
+    const object = this.arObjects.get(objectId);
+    return object?.type === ARMode.FRAME ? object.printQuality ?? null : null;
+  }
+
+  /**
+   * Largest artwork size, in meters, that still prints at the minimum DPI
+   *
+   * @param objectId - Frame whose artwork to check; defaults to the current artwork
+   */
+  getMaxPrintSize(objectId?: string): { width: number; height: number } | null {
+    let pixels: { width: number; height: number } | undefined;
+    if (objectId) {
+      const object = this.arObjects.get(objectId);
+      pixels = object?.type === ARMode.FRAME ? object.artworkPixels : undefined;
+    } else if (this.currentArtwork) {
+      pixels = { width: this.currentArtwork.pixelWidth, height: this.currentArtwork.pixelHeight };
+    }
+
+    return pixels ? getMaxPrintSize(pixels, this.config.printQuality) : null;
+  }
+
   /**
    * Place an AR object at the specified position
+   *
+   * @returns The new object's ID, or null if it doesn't fit on its wall
    */
-  async placeObject(position: Vector3, rotation?: Euler): Promise<string> {
+  async placeObject(position: Vector3, rotation?: Euler, planeId?: string): Promise<string | null> {
     const objectId = `${this.currentMode}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
     try {
-      if (this.currentMode === ARMode.FRAME) {
-        const frameData = await this.createFrameData(objectId, position, rotation);
-        this.arObjects.set(objectId, frameData);
-        this.renderer.createFrame(frameData);
-        this.onObjectPlacedCallback?.(frameData);
-      } else {
-        const neonData = await this.createNeonData(objectId, position, rotation);
-        this.arObjects.set(objectId, neonData);
-        this.renderer.createNeonSign(neonData);
-        this.onObjectPlacedCallback?.(neonData);
+      const objectData = this.currentMode === ARMode.FRAME
+        ? await this.createFrameData(objectId, position, rotation, planeId)
+        : await this.createNeonData(objectId, position, rotation, planeId);
+
+      // Keep the object on its wall, between floor and ceiling
+      const rejection = this.fitToWall(objectData);
+      if (rejection) {
+        console.warn('Placement rejected:', rejection.message);
+        this.onPlacementRejectedCallback?.(rejection);
+        return null;
+      }
+
+      // Keep clear of other objects on the wall
+      const conflict = this.resolveOverlap(objectData);
+      if (conflict?.resolution === 'rejected') {
+        const rejection: PlacementRejection = {
+          objectType: objectData.type,
+          planeId: conflict.planeId,
+          reason: 'overlaps-object',
+          message: `${objectData.type === ARMode.FRAME ? 'Frame' : 'Neon sign'} would overlap ` +
+            `${conflict.conflictingIds.length === 1 ? 'another object' : `${conflict.conflictingIds.length} other objects`}`
+        };
+        console.warn('Placement rejected:', rejection.message);
+        this.onPlacementRejectedCallback?.(rejection);
+        return null;
       }
+
+      this.insertObject(objectData);
+      this.recordPlacement(objectData);
+      this.onObjectPlacedCallback?.(objectData);
       
       return objectId;
     } catch (error) {
@@ -172,259 +379,1688 @@ export class FramerlyAREngine {
 
   /**
    * Update an existing AR object
+   *
+   * A move or resize that would overlap another object on the same wall is
+   * nudged, rejected (the update is dropped) or allowed per the overlap policy.
+   *
+   * @param options.snap - Snap a new position to neighbours and the wall;
+   *   defaults to the snapping config
    */
-  updateObject(objectId: string, updates: Partial<FrameData | NeonData>): void {
+  updateObject(
+    objectId: string,
+    updates: Partial<FrameData | NeonData>,
+    options: { snap?: boolean } = {}
+  ): void {
     const object = this.arObjects.get(objectId);
     if (!object) {
       throw new Error(`Object with ID ${objectId} not found`);
     }
 
-    const updatedObject = { ...object, ...updates } as FrameData | NeonData;
-    this.arObjects.set(objectId, updatedObject);
+    const after = this.cloneObject({ ...object, ...updates, id: objectId, type: object.type } as FrameData | NeonData);
+    if (after.type === ARMode.FRAME && 'artworkUrl' in updates && !('artworkPixels' in updates)) {
+      // Measured again once the new image loads
+      after.artworkPixels = undefined;
+      after.printQuality = undefined;
+    }
+    if (after.type === ARMode.FRAME && 'artworkUrl' in updates && !('artworkHash' in updates)) {
+      // Otherwise the old image would be restored from its hash
+      after.artworkHash = undefined;
+    }
+    if (updates.position && (options.snap ?? this.config.snapping.enabled)) {
+      this.applySnapping(after);
+    }
+    this.renderer.clearSnapGuides();
 
-    if (object.type === ARMode.FRAME) {
-      this.renderer.updateFrame(updatedObject as FrameData);
-    } else {
-      this.renderer.updateNeon(updatedObject as NeonData);
+    if (this.changesFootprint(object, after) && this.resolveOverlap(after)?.resolution === 'rejected') {
+      return;
     }
+
+    // Record the change from before any preview, so undo skips the preview steps
+    const before = this.previewOrigins.get(objectId) ?? this.cloneObject(object);
+    this.previewOrigins.delete(objectId);
+    this.applyObjectState(this.cloneObject(after));
+
+    this.history.push({
+      label: `Update ${object.type}`,
+      undo: () => this.applyObjectState(this.cloneObject(before)),
+      redo: () => this.applyObjectState(this.cloneObject(after))
+    });
   }
 
   /**
-   * Remove an AR object
+   * Show an object in a temporary state, e.g. while a gesture is in progress
+   *
+   * Previews are not recorded; commit the final state with `updateObject`
+   * or revert with `cancelPreview`. Snapping guides are shown while a
+   * snapped preview is active.
    */
-  removeObject(objectId: string): void {
+  previewObject(
+    objectId: string,
+    updates: Partial<FrameData | NeonData>,
+    options: { snap?: boolean } = {}
+  ): void {
     const object = this.arObjects.get(objectId);
-    if (object) {
-      this.renderer.removeObject(objectId, object.type);
-      this.arObjects.delete(objectId);
+    if (!object) {
+      throw new Error(`Object with ID ${objectId} not found`);
     }
+
+    if (!this.previewOrigins.has(objectId)) {
+      this.previewOrigins.set(objectId, this.cloneObject(object));
+    }
+
+    const next = this.cloneObject({ ...object, ...updates, id: objectId, type: object.type } as FrameData | NeonData);
+    if (updates.position && (options.snap ?? this.config.snapping.enabled)) {
+      this.renderer.showSnapGuides(this.applySnapping(next));
+    } else if (updates.position) {
+      this.renderer.clearSnapGuides();
+    }
+
+    // A rejected step leaves the object at its last valid preview
+    if (this.changesFootprint(object, next) && this.resolveOverlap(next)?.resolution === 'rejected') {
+      return;
+    }
+    this.applyObjectState(next);
   }
 
   /**
-   * Get frame recommendations from AI
+   * Revert an object to its state before the current preview
    */
-  async getFrameRecommendations(artworkUrl: string): Promise<any[]> {
-    return await this.aiConnector.getFrameRecommendations(artworkUrl);
+  cancelPreview(objectId: string): void {
+    const origin = this.previewOrigins.get(objectId);
+    if (origin) {
+      this.previewOrigins.delete(objectId);
+      this.renderer.clearSnapGuides();
+      this.applyObjectState(this.cloneObject(origin));
+    }
   }
 
   /**
-   * Get neon sign recommendations from AI
+   * Show or hide dimension lines for placed objects
+   *
+   * Shows the selected object's size, height above the floor and gaps to
+   * every neighbour; without a selection, all objects are measured.
    */
-  async getNeonRecommendations(context: string): Promise<any[]> {
-    return await this.aiConnector.getNeonRecommendations(context);
+  setMeasurementMode(enabled: boolean): void {
+    this.isMeasuring = enabled;
+    if (!enabled) {
+      this.renderer.clearMeasurements();
+    }
+  }
+
+  isMeasurementModeEnabled(): boolean {
+    return this.isMeasuring;
   }
 
   /**
-   * Handle tap/click for object placement
+   * Set the units used for all displayed lengths
    */
-  async handleTap(x: number, y: number): Promise<string | null> {
-    const session = this.planeTracker.getXRSession();
-    if (!session) return null;
+  setUnits(units: MeasurementUnit): void {
+    this.config.units = units;
+  }
 
-    try {
-      // Store the position for the next frame
-      let hitPosition: Vector3 | null = null;
-      
-      // Get hit test result on next frame
-      const frameCallback = async (_time: number, frame: XRFrame) => {
-        hitPosition = await this.planeTracker.hitTest(x, y, frame);
-      };
-      
-      // Request animation frame to get the current frame
-      await new Promise<void>((resolve) => {
-        session.requestAnimationFrame(async (time, frame) => {
-          await frameCallback(time, frame);
-          resolve();
-        });
-      });
-      
-      if (hitPosition) {
-        return await this.placeObject(hitPosition);
+  getUnits(): MeasurementUnit {
+    return this.config.units;
+  }
+
+  /**
+   * Add or replace a frame style; placed frames using it are rebuilt
+   */
+  registerFrameStyle(style: FrameStyle): void {
+    registerFrameStyle(style);
+
+    for (const object of this.arObjects.values()) {
+      if (object.type === ARMode.FRAME && object.frameStyle === style.name) {
+        this.renderer.removeObject(object.id, object.type);
+        this.renderer.createFrame(object);
       }
-      
-      return null;
-    } catch (error) {
-      console.warn('Hit test failed:', error);
-      return null;
     }
   }
 
   /**
-   * Get all placed objects
+   * Names of the registered frame styles
    */
-  getPlacedObjects(): (FrameData | NeonData)[] {
-    return Array.from(this.arObjects.values());
+  getFrameStyles(): string[] {
+    return listFrameStyles();
   }
 
   /**
-   * Get detected planes
+   * Cached texture count and memory, and the format KTX2 artwork is transcoded to
    */
-  getDetectedPlanes(): PlaneData[] {
-    return this.planeTracker.getDetectedPlanes();
+  getTextureStats(): TextureStats {
+    return this.renderer.getTextureStats();
   }
 
   /**
-   * Get current tracking state
+   * Current adaptive quality tier
    */
-  getTrackingState(): TrackingState {
-    return this.planeTracker.getTrackingState();
+  getQualityTier(): QualityTierName {
+    return this.renderer.getQualityTier();
   }
 
   /**
-   * Request camera permissions
+   * Show or hide an on-screen readout of quality tier, frame time and texture
+   * memory, for tuning on devices
    */
-  private async requestCameraPermissions(): Promise<CameraPermissionState> {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { facingMode: 'environment' } 
-      });
-      
-      // Stop the stream immediately (we just needed permission)
-      stream.getTracks().forEach(track => track.stop());
-      
-      return { granted: true, denied: false, prompt: false };
-    } catch (error) {
-      console.warn('Camera permission denied:', error);
-      return { granted: false, denied: true, prompt: false };
-    }
+  setQualityOverlayVisible(visible: boolean): void {
+    this.renderer.setQualityOverlayVisible(visible);
   }
 
   /**
-   * Setup event handlers
+   * Turn snapping on or off for updates that don't say otherwise
    */
-  private setupEventHandlers(): void {
-    this.planeTracker.onTrackingStateChanged((state) => {
-      this.onTrackingStateCallback?.(state);
-    });
+  setSnappingEnabled(enabled: boolean): void {
+    this.config.snapping.enabled = enabled;
+  }
 
-    this.planeTracker.onPlaneDetected((plane) => {
-      this.onPlaneDetectedCallback?.(plane);
+  /**
+   * Remove an AR object
+   */
+  removeObject(objectId: string): void {
+    const object = this.arObjects.get(objectId);
+    if (!object) return;
+
+    const snapshot = this.cloneObject(object);
+    this.deleteObject(objectId);
+
+    this.history.push({
+      label: `Remove ${object.type}`,
+      undo: () => this.reinsertObject(snapshot),
+      redo: () => this.deleteObject(objectId)
     });
   }
 
   /**
-   * Create frame data with AI recommendations
+   * Hang several artworks on a wall at once using a gallery template
+   *
+   * The layout is centered horizontally on the wall with its center at eye
+   * level above the floor (or mid-wall when no floor is known), then shifted
+   * to stay within the wall. All frames share a group ID, so they move and
+   * undo together. The overlap policy applies to the gallery as a whole: it
+   * is nudged as one, rejected, or hung over other objects.
+   *
+   * @returns IDs of the placed frames, or null if the layout doesn't fit
    */
-  private async createFrameData(
-    id: string, 
-    position: Vector3, 
-    rotation?: Euler
-  ): Promise<FrameData> {
-    // Get AI recommendations (fallback to defaults)
-    const recommendations = await this.aiConnector.getFrameRecommendations(
-      'https://example.com/sample-artwork.jpg'
+  layoutGallery(artworks: GalleryArtwork[], planeId: string, options: GalleryLayoutOptions): string[] | null {
+    const planes = this.planeTracker.getDetectedPlanes();
+    const plane = planes.find(p => p.id === planeId);
+    if (!plane || plane.orientation !== 'vertical' || plane.polygon.length < 3) {
+      throw new Error(`Plane ${planeId} is not a detected wall`);
+    }
+    if (artworks.length === 0) return [];
+
+    const wall = getWallExtents(plane);
+    const { minV, maxV, floorV } = this.getUsableWallHeight(wall, planes);
+
+    const rotation = new Euler().setFromRotationMatrix(
+      new Matrix4().makeBasis(wall.right, wall.up, wall.normal)
     );
-    
-    const recommendation = recommendations[0] || {
-      frameStyle: 'modern',
-      frameColor: '#000000',
-      matColor: '#ffffff',
-      suggestedSize: { width: 0.4, height: 0.6 }
-    };
+    const groupId = `gallery_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-    return {
-      id,
+    // Positioned once the layout is known
+    const frames: FrameData[] = artworks.map(artwork => ({
+      id: `${ARMode.FRAME}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       type: ARMode.FRAME,
-      position: position.clone(),
-      rotation: rotation ? rotation.clone() : new Euler(0, 0, 0),
+      position: new Vector3(),
+      rotation: rotation.clone(),
       scale: new Vector3(1, 1, 1),
       isPlaced: true,
+      planeId,
+      groupId,
       lastUpdate: Date.now(),
-      artworkUrl: 'https://example.com/sample-artwork.jpg',
-      frameStyle: recommendation.frameStyle,
-      frameColor: recommendation.frameColor,
-      matColor: recommendation.matColor,
-      width: recommendation.suggestedSize.width,
-      height: recommendation.suggestedSize.height
-    };
+      artworkUrl: artwork.artworkUrl,
+      frameStyle: artwork.frameStyle ?? 'modern',
+      frameColor: artwork.frameColor ?? '#000000',
+      matColor: artwork.matColor ?? '#ffffff',
+      matBorder: artwork.matBorder,
+      innerMats: artwork.innerMats,
+      glazing: artwork.glazing,
+      width: artwork.width,
+      height: artwork.height
+    }));
+
+    const layout = computeGalleryLayout(
+      frames.map(frame => this.renderer.getObjectSize(frame)),
+      {
+        template: options.template,
+        gap: options.gap ?? this.config.gallery.defaultGap,
+        columns: options.columns,
+        stepHeight: options.stepHeight
+      }
+    );
+
+    if (layout.width > wall.width || layout.height > maxV - minV) {
+      const rejection: PlacementRejection = {
+        objectType: ARMode.FRAME,
+        planeId,
+        reason: 'larger-than-wall',
+        message: `Gallery (${formatSize(layout.width, layout.height, this.config.units)}) ` +
+          `is larger than the usable wall area (${formatSize(wall.width, maxV - minV, this.config.units)})`
+      };
+      console.warn('Placement rejected:', rejection.message);
+      this.onPlacementRejectedCallback?.(rejection);
+      return null;
+    }
+
+    const centerHeight = options.centerHeight ?? this.config.gallery.eyeLevelHeight;
+    const preferredV = Number.isFinite(floorV) ? floorV + centerHeight : (minV + maxV) / 2;
+    const centerU = MathUtils.clamp(
+      (wall.minU + wall.maxU) / 2, wall.minU + layout.width / 2, wall.maxU - layout.width / 2
+    );
+    const centerV = MathUtils.clamp(preferredV, minV + layout.height / 2, maxV - layout.height / 2);
+    frames.forEach((frame, index) => {
+      const center = layout.centers[index];
+      frame.position.copy(fromWallSpace(wall, centerU + center.x, centerV + center.y, FRAME_DEPTH));
+    });
+
+    const conflicts = this.resolveGroupOverlap(frames, plane);
+    if (conflicts.some(conflict => conflict.resolution === 'rejected')) {
+      const conflictingIds = new Set(conflicts.flatMap(conflict => conflict.conflictingIds));
+      const rejection: PlacementRejection = {
+        objectType: ARMode.FRAME,
+        planeId,
+        reason: 'overlaps-object',
+        message: `Gallery would overlap ${conflictingIds.size === 1 ? 'another object' : `${conflictingIds.size} other objects`}`
+      };
+      console.warn('Placement rejected:', rejection.message);
+      this.onPlacementRejectedCallback?.(rejection);
+      return null;
+    }
+
+    const objectIds: string[] = [];
+    this.history.beginBatch('Hang gallery');
+    try {
+      frames.forEach(frame => {
+        this.insertObject(frame);
+        this.recordPlacement(frame);
+        this.onObjectPlacedCallback?.(frame);
+        objectIds.push(frame.id);
+      });
+    } finally {
+      this.history.endBatch();
+    }
+
+    return objectIds;
   }
 
   /**
-   * Create neon data with AI recommendations
+   * Get all objects sharing a group ID
    */
-  private async createNeonData(
-    id: string, 
-    position: Vector3, 
-    rotation?: Euler
-  ): Promise<NeonData> {
-    // Get AI recommendations (fallback to defaults)
-    const recommendations = await this.aiConnector.getNeonRecommendations('welcome');
-    
-    const recommendation = recommendations[0] || {
-      text: 'Welcome',
-      color: '#00FFFF',
-      glowIntensity: 2.0,
-      fontSize: 48
-    };
+  getGroupObjects(groupId: string): (FrameData | NeonData)[] {
+    return this.getPlacedObjects().filter(object => object.groupId === groupId);
+  }
 
-    return {
-      id,
-      type: ARMode.NEON,
-      position: position.clone(),
-      rotation: rotation ? rotation.clone() : new Euler(0, 0, 0),
-      scale: new Vector3(1, 1, 1),
-      isPlaced: true,
-      lastUpdate: Date.now(),
-      text: recommendation.text,
-      color: recommendation.color,
-      glowIntensity: recommendation.glowIntensity,
-      fontSize: recommendation.fontSize,
-      fontFamily: 'Arial, sans-serif'
-    };
+  /**
+   * Move every object in a group by the same world-space offset, as one undo step
+   */
+  moveGroup(groupId: string, offset: Vector3): void {
+    this.history.beginBatch('Move group');
+    try {
+      for (const object of this.getGroupObjects(groupId)) {
+        this.updateObject(object.id, { position: object.position.clone().add(offset) }, { snap: false });
+      }
+    } finally {
+      this.history.endBatch();
+    }
   }
 
   /**
-   * Main render loop
+   * Find the placed object under a canvas point
+   *
+   * @param x - Horizontal position in canvas pixels
+   * @param y - Vertical position in canvas pixels
    */
-  private startRenderLoop(): void {
-    const animate = () => {
-      if (!this.isRunning) return;
+  pickObject(x: number, y: number): string | null {
+    return this.renderer.pickObject(this.renderer.toNormalizedCoordinates(x, y));
+  }
 
-      const session = this.planeTracker.getXRSession();
-      if (session) {
-        session.requestAnimationFrame((_time, frame) => {
-          // Update plane tracking
-          this.planeTracker.update(frame, this.renderer);
-          
-          // Render scene
-          this.renderer.render();
-          
-          animate();
-        });
-      } else {
-        // Fallback for non-AR mode
-        this.renderer.render();
-        requestAnimationFrame(animate);
-      }
-    };
+  /**
+   * World-space ray through a canvas point
+   */
+  getScreenRay(x: number, y: number): Ray {
+    return this.renderer.getScreenRay(this.renderer.toNormalizedCoordinates(x, y));
+  }
+
+  /**
+   * Select an object, or clear the selection with null
+   */
+  selectObject(objectId: string | null): void {
+    const object = objectId ? this.arObjects.get(objectId) ?? null : null;
+    if ((object?.id ?? null) === this.selectedObjectId) return;
 
-    animate();
+    this.selectedObjectId = object?.id ?? null;
+    this.renderer.setSelectedObject(object);
+    this.onSelectionChangedCallback?.(object);
   }
 
-  // Event listener setters
-  onTrackingStateChanged(callback: (state: TrackingState) => void): void {
-    this.onTrackingStateCallback = callback;
+  /**
+   * Get the selected object, if any
+   */
+  getSelectedObject(): FrameData | NeonData | null {
+    return this.selectedObjectId ? this.arObjects.get(this.selectedObjectId) ?? null : null;
   }
 
-  onPlaneDetected(callback: (plane: PlaneData) => void): void {
-    this.onPlaneDetectedCallback = callback;
+  /**
+   * Get a placed object by ID
+   */
+  getObject(objectId: string): FrameData | NeonData | null {
+    return this.arObjects.get(objectId) ?? null;
   }
 
-  onObjectPlaced(callback: (object: FrameData | NeonData) => void): void {
-    this.onObjectPlacedCallback = callback;
+  /**
+   * Real-world outer size of a placed object in meters
+   */
+  getObjectSize(objectId: string): { width: number; height: number } | null {
+    const object = this.arObjects.get(objectId);
+    return object ? this.renderer.getObjectSize(object) : null;
   }
 
-  onError(callback: (error: Error) => void): void {
-    this.onErrorCallback = callback;
+  /**
+   * Run several operations as a single undo step
+   *
+   * A synchronous action's batch closes before this returns, so the next
+   * operation can't fall into it; an async action's closes when it settles.
+   */
+  batch<T>(label: string, action: () => Promise<T>): Promise<T>;
+  batch<T>(label: string, action: () => T): T;
+  batch<T>(label: string, action: () => T | Promise<T>): T | Promise<T> {
+    this.history.beginBatch(label);
+
+    let result: T | Promise<T>;
+    try {
+      result = action();
+    } catch (error) {
+      this.history.endBatch();
+      throw error;
+    }
+
+    if (result instanceof Promise) {
+      return result.finally(() => this.history.endBatch());
+    }
+    this.history.endBatch();
+    return result;
   }
 
   /**
-   * Dispose resources and cleanup
+   * Revert the last place, update, remove or batch
+   *
+   * @returns false if there was nothing to undo
    */
-  dispose(): void {
-    this.stop();
-    this.renderer.dispose();
-    this.arObjects.clear();
+  undo(): boolean {
+    return this.history.undo();
+  }
+
+  /**
+   * Re-apply the last undone operation
+   *
+   * @returns false if there was nothing to redo
+   */
+  redo(): boolean {
+    return this.history.redo();
+  }
+
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  /**
+   * Get the current undo/redo state
+   */
+  getHistoryState(): HistoryState {
+    return this.history.getState();
+  }
+
+  /**
+   * Forget all undo/redo steps
+   */
+  clearHistory(): void {
+    this.history.clear();
+  }
+
+  /**
+   * Export all placed objects as a versioned scene
+   *
+   * Objects are stored both in session coordinates and relative to the wall
+   * holding most of them, so the layout can be restored in a later session.
+   * Uploaded artwork is referenced by content hash; `saveScene` stores its
+   * images too.
+   */
+  exportScene(): SerializedScene {
+    const objects = this.getPlacedObjects();
+    const wall = this.findReferenceWall(objects);
+    return serializeScene(objects, wall ? this.getWallReference(wall) : undefined);
+  }
+
+  /**
+   * Replace the placed objects with a saved scene
+   *
+   * Wall-relative objects are placed relative to the given wall, or the
+   * largest stable wall currently detected. If the AR session has no wall
+   * yet, the restore waits for one and `onSceneRestored` fires when it runs.
+   * Uploaded artwork shows if it was chosen in this page; `loadScene` also
+   * restores it from storage.
+   *
+   * @returns IDs of the restored objects (empty if the restore was deferred)
+   */
+  importScene(input: string | SerializedScene, planeId?: string): string[] {
+    const scene = parseScene(input);
+    const planes = this.planeTracker.getDetectedPlanes();
+    const wall = planeId
+      ? planes.find(plane => plane.id === planeId)
+      : this.findRestoreWall(planes);
+
+    const isWallRelative = scene.objects.some(object => object.wallTransform);
+    if (!wall && isWallRelative && this.planeTracker.getXRSession()) {
+      this.pendingScene = scene;
+      console.log('Scene restore waiting for a wall to be detected');
+      return [];
+    }
+
+    this.pendingScene = undefined;
+    const reference = wall ? this.getWallReference(wall) : undefined;
+
+    // Replacing the scene is undone in one step
+    let objectIds: string[];
+    this.history.beginBatch('Restore scene');
+    try {
+      for (const objectId of Array.from(this.arObjects.keys())) {
+        this.removeObject(objectId);
+      }
+      objectIds = scene.objects.map(data => this.restoreObject(deserializeObject(data, reference)));
+    } finally {
+      this.history.endBatch();
+    }
+
+    console.log(`Restored ${objectIds.length} objects`);
+    this.onSceneRestoredCallback?.(objectIds);
+    return objectIds;
+  }
+
+  /**
+   * Save the current scene to a named slot
+   */
+  async saveScene(slot: string): Promise<void> {
+    const scene = this.exportScene();
+    const artwork = new Map<string, Blob>();
+    for (const hash of getArtworkHashes(scene)) {
+      const uploaded = this.uploadedArtwork.get(hash);
+      if (uploaded) artwork.set(hash, uploaded.blob);
+    }
+    await this.sceneStore.save(slot, scene, artwork);
+  }
+
+  /**
+   * Restore the scene saved in a named slot
+   *
+   * @returns IDs of the restored objects; empty if the slot is empty or the restore was deferred
+   */
+  async loadScene(slot: string, planeId?: string): Promise<string[]> {
+    const scene = await this.sceneStore.load(slot);
+    if (!scene) return [];
+
+    for (const hash of getArtworkHashes(scene)) {
+      if (this.uploadedArtwork.has(hash)) continue;
+      const blob = await this.sceneStore.loadArtwork(hash);
+      if (blob) {
+        this.uploadedArtwork.set(hash, { blob });
+      } else {
+        console.warn(`Artwork ${hash} is missing from saved scene ${slot}`);
+      }
+    }
+    return this.importScene(scene, planeId);
+  }
+
+  /**
+   * List saved scene slots, most recent first
+   */
+  async listSavedScenes(): Promise<SavedSceneInfo[]> {
+    return await this.sceneStore.list();
+  }
+
+  /**
+   * Delete a saved scene slot
+   */
+  async deleteSavedScene(slot: string): Promise<void> {
+    await this.sceneStore.delete(slot);
+  }
+
+  /**
+   * Get frame recommendations from AI
+   */
+  async getFrameRecommendations(artworkUrl: string): Promise<any[]> {
+    return await this.aiConnector.getFrameRecommendations(artworkUrl);
+  }
+
+  /**
+   * Get neon sign recommendations from AI
+   */
+  async getNeonRecommendations(context: string): Promise<any[]> {
+    return await this.aiConnector.getNeonRecommendations(context);
+  }
+
+  /**
+   * Handle tap/click for object placement
+   *
+   * @param x - Horizontal tap position in canvas pixels
+   * @param y - Vertical tap position in canvas pixels
+   */
+  async handleTap(x: number, y: number): Promise<string | null> {
+    const session = this.planeTracker.getXRSession();
+    if (!session) return null;
+
+    try {
+      const { x: ndcX, y: ndcY } = this.renderer.toNormalizedCoordinates(x, y);
+
+      // Hit test needs an active frame; none comes if the session ends first
+      const hitPose = await this.planeTracker.withNextFrame(
+        frame => this.planeTracker.hitTest(ndcX, ndcY, frame)
+      );
+      
+      if (hitPose) {
+        const placement = this.computeWallAlignedPlacement(hitPose);
+
+        let objectId: string | null;
+        try {
+          objectId = await this.placeObject(placement.position, placement.rotation, placement.planeId);
+        } catch {
+          // Already reported through onError
+          objectId = null;
+        }
+
+        if (!objectId) {
+          hitPose.anchor?.then(anchor => anchor.delete(), () => undefined);
+          return null;
+        }
+
+        await this.attachAnchor(objectId, hitPose);
+        return objectId;
+      }
+      
+      return null;
+    } catch (error) {
+      console.warn('Hit test failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Compute a transform that sits the current object flush against the hit surface
+   *
+   * The object's +Z (its front) follows the surface normal and its +Y stays as
+   * close to world up as the surface allows, so frames hang upright on walls.
+   * The origin is pushed out by the object's depth so the back rests on the wall.
+   */
+  private computeWallAlignedPlacement(hit: HitPose): { position: Vector3; rotation: Euler; planeId?: string } {
+    const forward = hit.normal.clone().normalize();
+    
+    // Project gravity-up onto the surface; on floors and ceilings fall back to
+    // the hit pose's own in-plane axis
+    let up = new Vector3(0, 1, 0);
+    if (Math.abs(forward.dot(up)) > 0.9) {
+      up = new Vector3(0, 0, -1).applyQuaternion(hit.orientation);
+    }
+    up.addScaledVector(forward, -up.dot(forward)).normalize();
+    
+    const right = new Vector3().crossVectors(up, forward).normalize();
+    const rotation = new Euler().setFromRotationMatrix(
+      new Matrix4().makeBasis(right, up, forward)
+    );
+
+    const depth = this.currentMode === ARMode.FRAME ? FRAME_DEPTH : NEON_DEPTH;
+    const position = hit.position.clone().addScaledVector(forward, depth);
+
+    return { position, rotation, planeId: hit.planeId };
+  }
+
+  /**
+   * Check an object against its wall's extents, clamping it when configured
+   *
+   * Only applies to objects on a vertical plane with a known boundary.
+   * Floor and ceiling planes, when detected, further limit the usable height.
+   */
+  private fitToWall(object: FrameData | NeonData): PlacementRejection | null {
+    const planes = this.planeTracker.getDetectedPlanes();
+    const plane = planes.find(p => p.id === object.planeId);
+    if (!plane || plane.orientation !== 'vertical' || plane.polygon.length < 3) return null;
+
+    const wall = getWallExtents(plane);
+    const { minV, maxV, floorV, ceilingV } = this.getUsableWallHeight(wall, planes);
+
+    const size = this.renderer.getObjectSize(object);
+    const halfWidth = size.width / 2;
+    const halfHeight = size.height / 2;
+    const sizeLabel = formatSize(size.width, size.height, this.config.units);
+    const name = object.type === ARMode.FRAME ? 'Frame' : 'Neon sign';
+
+    const rejection = (reason: PlacementRejectionReason, message: string): PlacementRejection => ({
+      objectType: object.type,
+      planeId: plane.id,
+      reason,
+      message
+    });
+
+    if (size.width > wall.width || size.height > maxV - minV) {
+      return rejection(
+        'larger-than-wall',
+        `${name} (${sizeLabel}) is larger than the usable wall area ` +
+        `(${formatSize(wall.width, maxV - minV, this.config.units)})`
+      );
+    }
+
+    const center = toWallSpace(wall, object.position);
+    let reason: PlacementRejectionReason | null = null;
+    let message = '';
+
+    if (center.x - halfWidth < wall.minU || center.x + halfWidth > wall.maxU) {
+      reason = 'overhangs-wall-edge';
+      message = `${name} (${sizeLabel}) hangs past the edge of the wall`;
+    } else if (center.y - halfHeight < minV) {
+      reason = floorV >= wall.minV ? 'overhangs-floor' : 'overhangs-wall-edge';
+      message = floorV >= wall.minV
+        ? `${name} (${sizeLabel}) would reach below the floor`
+        : `${name} (${sizeLabel}) hangs past the bottom of the wall`;
+    } else if (center.y + halfHeight > maxV) {
+      reason = ceilingV <= wall.maxV ? 'overhangs-ceiling' : 'overhangs-wall-edge';
+      message = ceilingV <= wall.maxV
+        ? `${name} (${sizeLabel}) would reach above the ceiling`
+        : `${name} (${sizeLabel}) hangs past the top of the wall`;
+    }
+
+    if (!reason) return null;
+
+    if (this.config.placement.overhangPolicy === 'reject') {
+      return rejection(reason, message);
+    }
+
+    // Slide the object back onto the wall, keeping its distance from it
+    const u = MathUtils.clamp(center.x, wall.minU + halfWidth, wall.maxU - halfWidth);
+    const v = MathUtils.clamp(center.y, minV + halfHeight, maxV - halfHeight);
+    const depth = object.position.clone().sub(wall.origin).dot(wall.normal);
+    object.position.copy(fromWallSpace(wall, u, v, depth));
+    console.log(`${message} - moved back onto the wall`);
+
+    return null;
+  }
+
+  /**
+   * Add a restored object to the scene and bind it to the plane it sits on
+   */
+  private restoreObject(object: FrameData | NeonData): string {
+    const plane = findPlaneForPoint(this.planeTracker.getDetectedPlanes(), object.position, 'vertical');
+    object.planeId = plane?.id;
+
+    this.insertObject(object);
+    this.recordPlacement(object);
+    return object.id;
+  }
+
+  /**
+   * Add an object to the scene and renderer without recording history
+   */
+  private insertObject(object: FrameData | NeonData): void {
+    this.resolveArtworkUrl(object);
+    this.refreshPrintQuality(object, object.type === ARMode.FRAME ? object.printQuality : undefined);
+    this.arObjects.set(object.id, object);
+    if (object.type === ARMode.FRAME) {
+      this.renderer.createFrame(object);
+    } else {
+      this.renderer.createNeonSign(object);
+    }
+
+    // Follow the plane until (and unless) an anchor takes over
+    this.attachToPlane(object);
+  }
+
+  /**
+   * Remove an object from the scene and renderer without recording history
+   */
+  private deleteObject(objectId: string): void {
+    const object = this.arObjects.get(objectId);
+    if (object) {
+      if (this.selectedObjectId === objectId) {
+        this.selectObject(null);
+      }
+      this.previewOrigins.delete(objectId);
+      this.reportedConflicts.delete(objectId);
+      this.anchorManager.detach(objectId);
+      this.renderer.removeObject(objectId, object.type);
+      this.arObjects.delete(objectId);
+      this.scheduleArtworkRelease();
+    }
+  }
+
+  /**
+   * Point an uploaded artwork's frame at a live object URL for its image
+   */
+  private resolveArtworkUrl(object: FrameData | NeonData): void {
+    if (object.type !== ARMode.FRAME || !object.artworkHash) return;
+    object.artworkUrl = this.getUploadedArtworkUrl(object.artworkHash) ?? object.artworkUrl;
+  }
+
+  private getUploadedArtworkUrl(hash: string): string | undefined {
+    const uploaded = this.uploadedArtwork.get(hash);
+    if (uploaded) {
+      uploaded.url ??= URL.createObjectURL(uploaded.blob);
+    }
+    return uploaded?.url;
+  }
+
+  /**
+   * Revoke object URLs of uploaded artwork nothing shows, once the current
+   * operation (e.g. replacing the scene) has finished
+   */
+  private scheduleArtworkRelease(): void {
+    if (this.isArtworkReleaseScheduled) return;
+    this.isArtworkReleaseScheduled = true;
+
+    queueMicrotask(() => {
+      this.isArtworkReleaseScheduled = false;
+      const used = new Set<string>();
+      if (this.currentArtwork?.hash) used.add(this.currentArtwork.hash);
+      for (const object of this.arObjects.values()) {
+        if (object.type === ARMode.FRAME && object.artworkHash) used.add(object.artworkHash);
+      }
+
+      for (const [hash, uploaded] of this.uploadedArtwork) {
+        if (uploaded.url && !used.has(hash)) {
+          URL.revokeObjectURL(uploaded.url);
+          uploaded.url = undefined;
+        }
+      }
+    });
+  }
+
+  /**
+   * Replace an object's state without recording history
+   *
+   * Transform-only changes move the existing group; anything else (size,
+   * artwork, text...) rebuilds it.
+   */
+  private applyObjectState(state: FrameData | NeonData): void {
+    const current = this.arObjects.get(state.id);
+    if (!current) return;
+    this.resolveArtworkUrl(state);
+
+    // Snapshots taken before the artwork loaded don't know its pixel size yet
+    if (state.type === ARMode.FRAME && current.type === ARMode.FRAME &&
+        !state.artworkPixels && state.artworkUrl === current.artworkUrl) {
+      state = { ...state, artworkPixels: current.artworkPixels };
+    }
+
+    this.refreshPrintQuality(state, current.type === ARMode.FRAME ? current.printQuality : undefined);
+    this.arObjects.set(state.id, state);
+    this.anchorManager.rebase(state.id, this.getObjectMatrix(state));
+
+    if (this.needsRebuild(current, state)) {
+      this.renderer.removeObject(current.id, current.type);
+      if (state.type === ARMode.FRAME) {
+        this.renderer.createFrame(state);
+      } else {
+        this.renderer.createNeonSign(state);
+      }
+    } else if (state.type === ARMode.FRAME) {
+      this.renderer.updateFrame(state);
+    } else {
+      this.renderer.updateNeon(state);
+    }
+  }
+
+  /**
+   * Check whether two states of an object differ in more than placement
+   *
+   * Fields learned once the artwork loads describe the same mesh, so they
+   * don't count either.
+   */
+  private needsRebuild(current: FrameData | NeonData, next: FrameData | NeonData): boolean {
+    const placementKeys = [
+      'position', 'rotation', 'scale', 'planeId', 'isOrphaned', 'isPlaced', 'lastUpdate', 'printQuality', 'artworkPixels'
+    ];
+    const keys = new Set([...Object.keys(current), ...Object.keys(next)]);
+
+    return Array.from(keys).some(key =>
+      !placementKeys.includes(key) &&
+      (current as unknown as Record<string, unknown>)[key] !== (next as unknown as Record<string, unknown>)[key]
+    );
+  }
+
+  /**
+   * Recompute a frame's print quality from its artwork's pixels and printed size
+   *
+   * Warns when the frame is rated poor and wasn't before, e.g. after being
+   * scaled up or when first placed.
+   */
+  private refreshPrintQuality(object: FrameData | NeonData, previous?: PrintQuality): void {
+    if (object.type !== ARMode.FRAME || !object.artworkPixels) return;
+
+    const quality = computePrintQuality(
+      object.artworkPixels,
+      object.width * object.scale.x,
+      object.height * object.scale.y,
+      this.config.printQuality
+    );
+    object.printQuality = quality;
+
+    if (quality.level === 'poor' && previous?.level !== 'poor') {
+      const maxSize = getMaxPrintSize(object.artworkPixels, this.config.printQuality);
+      this.onPrintQualityWarningCallback?.({
+        objectId: object.id,
+        quality,
+        message: `Artwork will print at ${quality.dpi} DPI and may look blurry; ` +
+          `keep it under ${formatSize(maxSize.width, maxSize.height, this.config.units)}`
+      });
+    }
+  }
+
+  /**
+   * Record the placement of an object that is already in the scene
+   */
+  private recordPlacement(object: FrameData | NeonData): void {
+    const snapshot = this.cloneObject(object);
+    this.history.push({
+      label: `Place ${object.type}`,
+      undo: () => this.deleteObject(object.id),
+      redo: () => this.reinsertObject(snapshot)
+    });
+  }
+
+  /**
+   * Put a removed object back from history, anchoring it again where it
+   * stands when the session supports anchors
+   */
+  private reinsertObject(snapshot: FrameData | NeonData): void {
+    const object = this.cloneObject(snapshot);
+    this.insertObject(object);
+
+    const anchorPose = this.getObjectMatrix(object);
+    this.planeTracker.createAnchor(anchorPose).then(anchor => {
+      if (!anchor) return;
+      // Removed again while the anchor was created
+      if (!this.arObjects.has(object.id)) {
+        anchor.delete();
+        return;
+      }
+      this.anchorManager.attachToAnchor(object.id, anchor, anchorPose, this.getObjectMatrix(object), object.planeId);
+    }).catch(error => console.warn('Anchor creation failed, using plane-relative placement:', error));
+  }
+
+  /**
+   * Copy an object's state so later tracking updates can't change it
+   */
+  private cloneObject<T extends FrameData | NeonData>(object: T): T {
+    return {
+      ...object,
+      position: object.position.clone(),
+      rotation: object.rotation.clone(),
+      scale: object.scale.clone()
+    };
+  }
+
+  /**
+   * The wall holding most of the given objects
+   */
+  private findReferenceWall(objects: (FrameData | NeonData)[]): PlaneData | null {
+    const walls = this.planeTracker.getDetectedPlanes()
+      .filter(plane => plane.orientation === 'vertical' && plane.polygon.length >= 3);
+
+    let best: PlaneData | null = null;
+    let bestCount = 0;
+    for (const wall of walls) {
+      const count = objects.filter(object => object.planeId === wall.id).length;
+      if (count > bestCount) {
+        best = wall;
+        bestCount = count;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * The largest stable wall, used when restoring without an explicit target
+   */
+  private findRestoreWall(planes: PlaneData[]): PlaneData | null {
+    const walls = planes.filter(plane =>
+      plane.orientation === 'vertical' && plane.isStable && plane.polygon.length >= 3
+    );
+    if (walls.length === 0) return null;
+
+    return walls.reduce((largest, wall) =>
+      getPolygonArea(wall.polygon) > getPolygonArea(largest.polygon) ? wall : largest
+    );
+  }
+
+  /**
+   * Wall reference frame shared by export and import
+   */
+  private getWallReference(wall: PlaneData): Matrix4 {
+    return getWallReferenceMatrix(getWallExtents(wall), getFloorHeight(this.planeTracker.getDetectedPlanes()));
+  }
+
+  /**
+   * Run a deferred scene restore once a stable wall shows up
+   */
+  private restorePendingScene(plane: PlaneData): void {
+    if (!this.pendingScene || plane.orientation !== 'vertical' || !plane.isStable || plane.polygon.length < 3) {
+      return;
+    }
+
+    try {
+      this.importScene(this.pendingScene, plane.id);
+    } catch (error) {
+      this.pendingScene = undefined;
+      console.error('Failed to restore scene:', error);
+      this.onErrorCallback?.(error as Error);
+    }
+  }
+
+  /**
+   * Vertical wall-space range objects may occupy: the wall, cut by floor and ceiling
+   *
+   * floorV and ceilingV are infinite when the floor or ceiling isn't detected.
+   */
+  private getUsableWallHeight(
+    wall: WallExtents,
+    planes: PlaneData[]
+  ): { minV: number; maxV: number; floorV: number; ceilingV: number } {
+    const floorHeight = getFloorHeight(planes);
+    const ceilingHeight = getCeilingHeight(planes);
+
+    // Wall-space v is world height relative to the wall origin
+    const floorV = floorHeight !== null ? floorHeight - wall.origin.y : -Infinity;
+    const ceilingV = ceilingHeight !== null ? ceilingHeight - wall.origin.y : Infinity;
+
+    return {
+      minV: Math.max(wall.minV, floorV),
+      maxV: Math.min(wall.maxV, ceilingV),
+      floorV,
+      ceilingV
+    };
+  }
+
+  /**
+   * Check an object against others on its wall and apply the overlap policy
+   *
+   * Nudging moves the object to the nearest free spot on the usable wall; when
+   * there is none the change is rejected. Objects in the same group are not
+   * checked against each other. Conflicts are reported through `onObjectConflict`.
+   *
+   * @returns The conflict, or null if the object overlaps nothing
+   */
+  private resolveOverlap(object: FrameData | NeonData): ObjectConflict | null {
+    const planes = this.planeTracker.getDetectedPlanes();
+    const plane = planes.find(p => p.id === object.planeId);
+    if (!plane || plane.orientation !== 'vertical' || plane.polygon.length < 3) return null;
+
+    const wall = getWallExtents(plane);
+    const others = this.getPlacedObjects().filter(other =>
+      other.id !== object.id &&
+      other.planeId === plane.id &&
+      !(object.groupId && other.groupId === object.groupId)
+    );
+    const otherBoxes = others.map(other => this.getWallBox(wall, other));
+    const box = this.getWallBox(wall, object);
+
+    const overlaps = findOverlaps(box, otherBoxes);
+    if (overlaps.length === 0) {
+      this.reportedConflicts.delete(object.id);
+      return null;
+    }
+
+    let resolution: ObjectConflict['resolution'] = 'rejected';
+    const policy = this.config.placement.overlapPolicy;
+
+    if (policy === 'allow') {
+      resolution = 'allowed';
+    } else if (policy === 'nudge') {
+      const { minV, maxV } = this.getUsableWallHeight(wall, planes);
+      const spot = findNearestFreeSpot(box, otherBoxes, { minU: wall.minU, maxU: wall.maxU, minV, maxV });
+      if (spot) {
+        const depth = object.position.clone().sub(wall.origin).dot(wall.normal);
+        object.position.copy(fromWallSpace(wall, spot.x, spot.y, depth));
+        resolution = 'nudged';
+      }
+    }
+
+    const conflict: ObjectConflict = {
+      objectId: object.id,
+      conflictingIds: overlaps.map(index => others[index].id),
+      planeId: plane.id,
+      resolution
+    };
+    this.reportConflict(conflict);
+    return conflict;
+  }
+
+  /**
+   * Check a new group's objects against objects outside it on their wall and
+   * apply the overlap policy to the group as a whole
+   *
+   * Nudging moves every member by the same offset to the nearest spot where
+   * none overlaps; when there is none the group is rejected. Each overlapping
+   * member's conflict is reported through `onObjectConflict`.
+   *
+   * @returns The conflicts, empty if no member overlaps anything
+   */
+  private resolveGroupOverlap(objects: (FrameData | NeonData)[], plane: PlaneData): ObjectConflict[] {
+    const planes = this.planeTracker.getDetectedPlanes();
+    const wall = getWallExtents(plane);
+    const memberIds = new Set(objects.map(object => object.id));
+    const others = this.getPlacedObjects().filter(other => other.planeId === plane.id && !memberIds.has(other.id));
+    const otherBoxes = others.map(other => this.getWallBox(wall, other));
+    const boxes = objects.map(object => this.getWallBox(wall, object));
+
+    const overlapping = boxes
+      .map((box, index) => ({ object: objects[index], overlaps: findOverlaps(box, otherBoxes) }))
+      .filter(({ overlaps }) => overlaps.length > 0);
+    if (overlapping.length === 0) return [];
+
+    let resolution: ObjectConflict['resolution'] = 'rejected';
+    const policy = this.config.placement.overlapPolicy;
+
+    if (policy === 'allow') {
+      resolution = 'allowed';
+    } else if (policy === 'nudge') {
+      const { minV, maxV } = this.getUsableWallHeight(wall, planes);
+      const offset = findNearestFreeOffset(boxes, otherBoxes, { minU: wall.minU, maxU: wall.maxU, minV, maxV });
+      if (offset) {
+        const shift = wall.right.clone().multiplyScalar(offset.x).addScaledVector(wall.up, offset.y);
+        objects.forEach(object => object.position.add(shift));
+        resolution = 'nudged';
+      }
+    }
+
+    return overlapping.map(({ object, overlaps }) => {
+      const conflict: ObjectConflict = {
+        objectId: object.id,
+        conflictingIds: overlaps.map(index => others[index].id),
+        planeId: plane.id,
+        resolution
+      };
+      this.reportConflict(conflict);
+      return conflict;
+    });
+  }
+
+  /**
+   * Report a conflict through `onObjectConflict` unless it was just reported for the object
+   */
+  private reportConflict(conflict: ObjectConflict): void {
+    const key = `${conflict.resolution}:${conflict.conflictingIds.sort().join(',')}`;
+    if (this.reportedConflicts.get(conflict.objectId) !== key) {
+      this.reportedConflicts.set(conflict.objectId, key);
+      this.onObjectConflictCallback?.(conflict);
+    }
+  }
+
+  /**
+   * An object's outer bounds in a wall's space
+   */
+  private getWallBox(wall: WallExtents, object: FrameData | NeonData): WallBox {
+    const center = toWallSpace(wall, object.position);
+    return { u: center.x, v: center.y, ...this.renderer.getObjectSize(object) };
+  }
+
+  /**
+   * Check whether a change moves or resizes an object
+   */
+  private changesFootprint(before: FrameData | NeonData, after: FrameData | NeonData): boolean {
+    if (!before.position.equals(after.position)) return true;
+
+    const beforeSize = this.renderer.getObjectSize(before);
+    const afterSize = this.renderer.getObjectSize(after);
+    return beforeSize.width !== afterSize.width || beforeSize.height !== afterSize.height;
+  }
+
+  /**
+   * Snap an object's position to neighbours on its wall and to the wall itself
+   *
+   * Objects in the same group are not used as neighbours since they move
+   * together. Only applies to objects on a detected wall.
+   *
+   * @returns World-space guide lines for the snaps that were applied
+   */
+  private applySnapping(object: FrameData | NeonData): { start: Vector3; end: Vector3 }[] {
+    const planes = this.planeTracker.getDetectedPlanes();
+    const plane = planes.find(p => p.id === object.planeId);
+    if (!plane || plane.orientation !== 'vertical' || plane.polygon.length < 3) return [];
+
+    const wall = getWallExtents(plane);
+    const { minV, maxV, floorV } = this.getUsableWallHeight(wall, planes);
+    const toWallBox = (item: FrameData | NeonData): WallBox => {
+      const center = toWallSpace(wall, item.position);
+      return { u: center.x, v: center.y, ...this.renderer.getObjectSize(item) };
+    };
+
+    const neighbours = this.getPlacedObjects()
+      .filter(other =>
+        other.id !== object.id &&
+        other.planeId === plane.id &&
+        !(object.groupId && other.groupId === object.groupId)
+      )
+      .map(toWallBox);
+
+    const result = snapToWall(toWallBox(object), {
+      neighbours,
+      minU: wall.minU,
+      maxU: wall.maxU,
+      minV,
+      maxV,
+      hangingV: Number.isFinite(floorV) ? floorV + this.config.snapping.hangingHeight : null,
+      threshold: this.config.snapping.threshold
+    });
+
+    // Keep the object's distance from the wall
+    const depth = object.position.clone().sub(wall.origin).dot(wall.normal);
+    object.position.copy(fromWallSpace(wall, result.u, result.v, depth));
+
+    return result.guides.map(guide => ({
+      start: fromWallSpace(wall, guide.from.x, guide.from.y, depth),
+      end: fromWallSpace(wall, guide.to.x, guide.to.y, depth)
+    }));
+  }
+
+  /**
+   * Rebuild dimension lines for the current object positions
+   */
+  private updateMeasurements(): void {
+    const selected = this.getSelectedObject();
+    const planes = this.planeTracker.getDetectedPlanes();
+    const floorHeight = getFloorHeight(planes);
+
+    // Measuring everything, draw each gap once (to the right and above)
+    const measurements = selected
+      ? this.measureObject(selected, planes, floorHeight, true)
+      : this.getPlacedObjects().flatMap(object => this.measureObject(object, planes, floorHeight, false));
+
+    this.renderer.updateMeasurements(measurements);
+  }
+
+  /**
+   * Dimension lines for one object: outer size, height above the floor, gaps to neighbours
+   */
+  private measureObject(
+    object: FrameData | NeonData,
+    planes: PlaneData[],
+    floorHeight: number | null,
+    allSides: boolean
+  ): MeasurementLine[] {
+    const units = this.config.units;
+    const size = this.renderer.getObjectSize(object);
+    const halfWidth = size.width / 2;
+    const halfHeight = size.height / 2;
+
+    // Dimension lines sit just outside the object's edges, in its own plane
+    const offset = 0.04;
+    const right = new Vector3(1, 0, 0).applyEuler(object.rotation);
+    const up = new Vector3(0, 1, 0).applyEuler(object.rotation);
+    const at = (x: number, y: number) =>
+      object.position.clone().addScaledVector(right, x).addScaledVector(up, y);
+
+    const measurements: MeasurementLine[] = [
+      { start: at(-halfWidth, halfHeight + offset), end: at(halfWidth, halfHeight + offset), label: formatLength(size.width, units) },
+      { start: at(halfWidth + offset, -halfHeight), end: at(halfWidth + offset, halfHeight), label: formatLength(size.height, units) }
+    ];
+
+    if (floorHeight !== null) {
+      const bottom = at(0, -halfHeight);
+      if (bottom.y > floorHeight) {
+        measurements.push({
+          start: bottom,
+          end: new Vector3(bottom.x, floorHeight, bottom.z),
+          label: formatLength(bottom.y - floorHeight, units)
+        });
+      }
+    }
+
+    const plane = planes.find(p => p.id === object.planeId);
+    if (plane?.orientation === 'vertical' && plane.polygon.length >= 3) {
+      measurements.push(...this.measureGaps(object, getWallExtents(plane), allSides));
+    }
+
+    return measurements;
+  }
+
+  /**
+   * Lines to the nearest neighbour on each side of an object on the same wall
+   */
+  private measureGaps(object: FrameData | NeonData, wall: WallExtents, allSides: boolean): MeasurementLine[] {
+    const toBox = (item: FrameData | NeonData): WallBox => {
+      const center = toWallSpace(wall, item.position);
+      return { u: center.x, v: center.y, ...this.renderer.getObjectSize(item) };
+    };
+
+    const box = toBox(object);
+    const neighbours = this.getPlacedObjects()
+      .filter(other => other.id !== object.id && other.planeId === object.planeId)
+      .map(toBox);
+    const depth = object.position.clone().sub(wall.origin).dot(wall.normal);
+
+    const directions: { axis: 'u' | 'v'; sign: 1 | -1 }[] = [{ axis: 'u', sign: 1 }, { axis: 'v', sign: 1 }];
+    if (allSides) {
+      directions.push({ axis: 'u', sign: -1 }, { axis: 'v', sign: -1 });
+    }
+
+    const measurements: MeasurementLine[] = [];
+    for (const { axis, sign } of directions) {
+      const other = axis === 'u' ? 'v' : 'u';
+      const extent = (item: WallBox, along: 'u' | 'v') => (along === 'u' ? item.width : item.height) / 2;
+      const edge = box[axis] + sign * extent(box, axis);
+
+      // Nearest neighbour on this side that overlaps the object across the other axis
+      let nearest: { gap: number; item: WallBox } | null = null;
+      for (const item of neighbours) {
+        if (Math.abs(item[other] - box[other]) >= extent(item, other) + extent(box, other)) continue;
+        const gap = sign * (item[axis] - sign * extent(item, axis) - edge);
+        if (gap > 0 && (!nearest || gap < nearest.gap)) {
+          nearest = { gap, item };
+        }
+      }
+      if (!nearest) continue;
+
+      // Draw through the middle of the overlapping span
+      const overlapStart = Math.max(box[other] - extent(box, other), nearest.item[other] - extent(nearest.item, other));
+      const overlapEnd = Math.min(box[other] + extent(box, other), nearest.item[other] + extent(nearest.item, other));
+      const across = (overlapStart + overlapEnd) / 2;
+      const point = (along: number) => axis === 'u'
+        ? fromWallSpace(wall, along, across, depth)
+        : fromWallSpace(wall, across, along, depth);
+
+      measurements.push({
+        start: point(edge),
+        end: point(edge + sign * nearest.gap),
+        label: formatLength(nearest.gap, this.config.units)
+      });
+    }
+
+    return measurements;
+  }
+
+  /**
+   * Bind a placed object to the anchor created with its hit test
+   */
+  private async attachAnchor(objectId: string, hit: HitPose): Promise<void> {
+    if (!hit.anchor) return;
+
+    try {
+      const anchor = await hit.anchor;
+      const object = this.arObjects.get(objectId);
+      if (!object) {
+        anchor.delete();
+        return;
+      }
+
+      const anchorPose = new Matrix4().compose(hit.position, hit.orientation, new Vector3(1, 1, 1));
+      this.anchorManager.attachToAnchor(
+        objectId, anchor, anchorPose, this.getObjectMatrix(object), object.planeId
+      );
+    } catch (error) {
+      console.warn('Anchor creation failed, using plane-relative placement:', error);
+    }
+  }
+
+  /**
+   * Bind a placed object to its plane so it follows plane pose corrections
+   */
+  private attachToPlane(object: FrameData | NeonData): void {
+    const plane = this.planeTracker.getDetectedPlanes().find(p => p.id === object.planeId);
+    if (plane) {
+      this.anchorManager.attachToPlane(object.id, plane, this.getObjectMatrix(object));
+    }
+  }
+
+  /**
+   * Apply anchor and plane poses to placed objects
+   */
+  private updateAnchoredObjects(frame: XRFrame): void {
+    const refSpace = this.planeTracker.getReferenceSpace();
+    if (!refSpace) return;
+
+    const poses = this.anchorManager.update(frame, refSpace, this.planeTracker.getDetectedPlanes());
+    const quaternion = new Quaternion();
+    const scale = new Vector3();
+
+    for (const [objectId, matrix] of poses.entries()) {
+      const object = this.arObjects.get(objectId);
+      if (object) {
+        matrix.decompose(object.position, quaternion, scale);
+        object.rotation.setFromQuaternion(quaternion);
+      }
+    }
+
+    this.renderer.applyObjectPoses(poses);
+  }
+
+  /**
+   * Build an object's world transform, excluding scale
+   */
+  private getObjectMatrix(object: FrameData | NeonData): Matrix4 {
+    return new Matrix4().compose(
+      object.position,
+      new Quaternion().setFromEuler(object.rotation),
+      new Vector3(1, 1, 1)
+    );
+  }
+
+  /**
+   * Get all placed objects
+   */
+  getPlacedObjects(): (FrameData | NeonData)[] {
+    return Array.from(this.arObjects.values());
+  }
+
+  /**
+   * Get detected planes
+   */
+  getDetectedPlanes(): PlaneData[] {
+    return this.planeTracker.getDetectedPlanes();
+  }
+
+  /**
+   * Get current tracking state
+   */
+  getTrackingState(): TrackingState {
+    return this.planeTracker.getTrackingState();
+  }
+
+  /**
+   * Request camera permissions
+   */
+  private async requestCameraPermissions(): Promise<CameraPermissionState> {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ 
+        video: { facingMode: 'environment' } 
+      });
+      
+      // Stop the stream immediately (we just needed permission)
+      stream.getTracks().forEach(track => track.stop());
+      
+      return { granted: true, denied: false, prompt: false };
+    } catch (error) {
+      console.warn('Camera permission denied:', error);
+      return { granted: false, denied: true, prompt: false };
+    }
+  }
+
+  /**
+   * Setup event handlers
+   */
+  private setupEventHandlers(): void {
+    this.renderer.onArtworkProgress((progress) => {
+      this.onArtworkProgressCallback?.(progress);
+    });
+
+    this.renderer.onQualityChanged((change) => {
+      this.onQualityChangedCallback?.(change);
+    });
+
+    // Frames whose pixel size wasn't known up front (gallery, restored scenes)
+    this.renderer.onArtworkLoaded((objectId, pixels) => {
+      const object = this.arObjects.get(objectId);
+      if (object?.type === ARMode.FRAME && !object.artworkPixels) {
+        object.artworkPixels = pixels;
+        this.refreshPrintQuality(object);
+      }
+    });
+
+    this.planeTracker.onTrackingStateChanged((state) => {
+      this.onTrackingStateCallback?.(state);
+    });
+
+    this.planeTracker.onPlaneDetected((plane) => {
+      this.onPlaneDetectedCallback?.(plane);
+      this.restorePendingScene(plane);
+    });
+
+    this.planeTracker.onPlaneUpdated((plane) => {
+      this.onPlaneUpdatedCallback?.(plane);
+      this.restorePendingScene(plane);
+    });
+
+    this.planeTracker.onPlaneRemoved((plane) => {
+      this.reparentObjectsFromPlanes([plane.id], null);
+      this.onPlaneRemovedCallback?.(plane);
+    });
+
+    // Overlays are only refreshed from XR frames, which stop with the session
+    this.planeTracker.onSessionEnded(() => {
+      this.renderer.clearPlaneVisualization();
+    });
+
+    this.planeTracker.onPlanesMerged((plane, mergedPlaneIds) => {
+      this.reparentObjectsFromPlanes(mergedPlaneIds, plane);
+      this.onPlanesMergedCallback?.(plane, mergedPlaneIds);
+    });
+
+    this.history.onChanged((state) => {
+      this.onHistoryChangedCallback?.(state);
+    });
+
+    this.anchorManager.onAnchorLost((objectId) => {
+      const object = this.arObjects.get(objectId);
+      if (object) {
+        console.warn(`Anchor lost for ${objectId}, falling back to plane tracking`);
+        this.onAnchorLostCallback?.(object);
+      }
+    });
+  }
+
+  /**
+   * Move objects off planes that are gone
+   *
+   * Objects go to the merge target when there is one, otherwise to the best
+   * plane that still contains them; with neither they are marked orphaned.
+   */
+  private reparentObjectsFromPlanes(planeIds: string[], mergeTarget: PlaneData | null): void {
+    const remainingPlanes = this.planeTracker.getDetectedPlanes();
+
+    for (const object of this.arObjects.values()) {
+      if (!object.planeId || !planeIds.includes(object.planeId)) continue;
+
+      const plane = mergeTarget ?? findPlaneForPoint(remainingPlanes, object.position);
+      object.planeId = plane?.id;
+      object.isOrphaned = !plane;
+      this.anchorManager.reparent(object.id, plane, this.getObjectMatrix(object));
+
+      if (!plane) {
+        console.warn(`Object ${object.id} orphaned: its plane was removed`);
+      }
+    }
+  }
+
+  /**
+   * Create frame data with AI recommendations
+   */
+  private async createFrameData(
+    id: string, 
+    position: Vector3, 
+    rotation?: Euler,
+    planeId?: string
+  ): Promise<FrameData> {
+    const artwork = this.currentArtwork;
+    if (!artwork) {
+      throw new Error('No artwork selected. Call setArtwork() before placing a frame.');
+    }
+
+    // Get AI recommendations (fallback to defaults)
+    const recommendations = await this.aiConnector.getFrameRecommendations(artwork.url);
+    
+    const recommendation = recommendations[0] || {
+      frameStyle: 'modern',
+      frameColor: '#000000',
+      matColor: '#ffffff',
+      suggestedSize: { width: 0.4, height: 0.6 }
+    };
+
+    return {
+      id,
+      type: ARMode.FRAME,
+      position: position.clone(),
+      rotation: rotation ? rotation.clone() : new Euler(0, 0, 0),
+      scale: new Vector3(1, 1, 1),
+      isPlaced: true,
+      planeId,
+      lastUpdate: Date.now(),
+      artworkUrl: artwork.url,
+      artworkHash: artwork.hash,
+      artworkPixels: { width: artwork.pixelWidth, height: artwork.pixelHeight },
+      frameStyle: recommendation.frameStyle,
+      frameColor: recommendation.frameColor,
+      matColor: recommendation.matColor,
+      // Keep the suggested scale but the artwork's own proportions
+      ...fitToAspect(recommendation.suggestedSize, artwork.aspectRatio)
+    };
+  }
+
+  /**
+   * Create neon data with AI recommendations
+   */
+  private async createNeonData(
+    id: string, 
+    position: Vector3, 
+    rotation?: Euler,
+    planeId?: string
+  ): Promise<NeonData> {
+    // Get AI recommendations (fallback to defaults)
+    const recommendations = await this.aiConnector.getNeonRecommendations('welcome');
+    
+    const recommendation = recommendations[0] || {
+      text: 'Welcome',
+      color: '#00FFFF',
+      glowIntensity: 2.0,
+      fontSize: 48
+    };
+
+    return {
+      id,
+      type: ARMode.NEON,
+      position: position.clone(),
+      rotation: rotation ? rotation.clone() : new Euler(0, 0, 0),
+      scale: new Vector3(1, 1, 1),
+      isPlaced: true,
+      planeId,
+      lastUpdate: Date.now(),
+      text: recommendation.text,
+      color: recommendation.color,
+      glowIntensity: recommendation.glowIntensity,
+      fontSize: recommendation.fontSize,
+      fontFamily: 'Arial, sans-serif'
+    };
+  }
+
+  /**
+   * Main render loop
+   */
+  private startRenderLoop(): void {
+    // Driven by the XR session while one is bound, after three.js has posed the camera
+    this.renderer.setAnimationLoop((frame) => {
+      if (!this.isRunning) return;
+
+      if (frame) {
+        // Update plane tracking
+        this.planeTracker.update(frame, this.renderer);
+
+        // Move placed objects with their anchors
+        this.updateAnchoredObjects(frame);
+      }
+
+      if (this.isMeasuring) {
+        this.updateMeasurements();
+      }
+
+      // Render scene
+      this.renderer.render();
+    });
+  }
+
+  // Event listener setters
+  onTrackingStateChanged(callback: (state: TrackingState) => void): void {
+    this.onTrackingStateCallback = callback;
+  }
+
+  onPlaneDetected(callback: (plane: PlaneData) => void): void {
+    this.onPlaneDetectedCallback = callback;
+  }
+
+  onPlaneUpdated(callback: (plane: PlaneData) => void): void {
+    this.onPlaneUpdatedCallback = callback;
+  }
+
+  onPlaneRemoved(callback: (plane: PlaneData) => void): void {
+    this.onPlaneRemovedCallback = callback;
+  }
+
+  onPlanesMerged(callback: (plane: PlaneData, mergedPlaneIds: string[]) => void): void {
+    this.onPlanesMergedCallback = callback;
+  }
+
+  onObjectPlaced(callback: (object: FrameData | NeonData) => void): void {
+    this.onObjectPlacedCallback = callback;
+  }
+
+  onPlacementRejected(callback: (rejection: PlacementRejection) => void): void {
+    this.onPlacementRejectedCallback = callback;
+  }
+
+  onAnchorLost(callback: (object: FrameData | NeonData) => void): void {
+    this.onAnchorLostCallback = callback;
+  }
+
+  onSceneRestored(callback: (objectIds: string[]) => void): void {
+    this.onSceneRestoredCallback = callback;
+  }
+
+  onSelectionChanged(callback: (object: FrameData | NeonData | null) => void): void {
+    this.onSelectionChangedCallback = callback;
+  }
+
+  onObjectConflict(callback: (conflict: ObjectConflict) => void): void {
+    this.onObjectConflictCallback = callback;
+  }
+
+  onArtworkChanged(callback: (artwork: ArtworkInfo) => void): void {
+    this.onArtworkChangedCallback = callback;
+  }
+
+  onArtworkProgress(callback: (progress: ArtworkLoadProgress) => void): void {
+    this.onArtworkProgressCallback = callback;
+  }
+
+  onPrintQualityWarning(callback: (warning: PrintQualityWarning) => void): void {
+    this.onPrintQualityWarningCallback = callback;
+  }
+
+  onQualityChanged(callback: (change: QualityChange) => void): void {
+    this.onQualityChangedCallback = callback;
+  }
+
+  onHistoryChanged(callback: (state: HistoryState) => void): void {
+    this.onHistoryChangedCallback = callback;
+  }
+
+  onError(callback: (error: Error) => void): void {
+    this.onErrorCallback = callback;
+  }
+
+  /**
+   * Dispose resources and cleanup
+   */
+  async dispose(): Promise<void> {
+    // Finish the autosave and session end before tearing down what they use
+    await this.stop().catch(error => console.warn('Failed to stop AR session:', error));
+
+    this.anchorManager.dispose();
+    this.renderer.dispose();
+    this.arObjects.clear();
+
+    for (const uploaded of this.uploadedArtwork.values()) {
+      if (uploaded.url) URL.revokeObjectURL(uploaded.url);
+    }
+    this.uploadedArtwork.clear();
+    this.unhashedArtworkUrls.forEach(url => URL.revokeObjectURL(url));
+    this.unhashedArtworkUrls = [];
     console.log('AR engine disposed');
   }
-} 
\ No newline at end of file
+} 
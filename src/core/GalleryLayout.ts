@@ -0,0 +1,216 @@
+/**
+ * GalleryLayout - Arranges several frames into a gallery wall template
+ *
+ * Works purely in 2D wall space (x right, y up, meters). Frames are given by
+ * their outer size and come back as center offsets from the layout's center.
+ */
+
+import { Vector2 } from 'three';
+import { GalleryTemplate } from '../types';
+
+/** Default rise between neighbouring staircase frames, in meters */
+const DEFAULT_STEP_HEIGHT = 0.15;
+
+/** Width-to-height ratio salon clusters grow towards */
+const SALON_ASPECT = 1.5;
+
+// Tolerance for boxes that exactly touch at the gap distance
+const EPSILON = 1e-6;
+
+export interface GalleryLayoutResult {
+  // Center of each frame, in input order, relative to the layout's center
+  centers: Vector2[];
+  width: number;
+  height: number;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Compute frame positions for a gallery template
+ *
+ * @param sizes - Outer size of each frame, frame border included
+ */
+export function computeGalleryLayout(
+  sizes: { width: number; height: number }[],
+  options: { template: GalleryTemplate; gap: number; columns?: number; stepHeight?: number }
+): GalleryLayoutResult {
+  if (sizes.length === 0) {
+    return { centers: [], width: 0, height: 0 };
+  }
+
+  let boxes: Box[];
+  switch (options.template) {
+    case 'grid':
+      boxes = layoutGrid(sizes, options.gap, options.columns);
+      break;
+    case 'salon':
+      boxes = layoutSalon(sizes, options.gap);
+      break;
+    case 'staircase':
+      boxes = layoutRow(sizes, options.gap, options.stepHeight ?? DEFAULT_STEP_HEIGHT);
+      break;
+    case 'row':
+    default:
+      boxes = layoutRow(sizes, options.gap, 0);
+      break;
+  }
+
+  return centerLayout(boxes);
+}
+
+/**
+ * Frames side by side with equal gaps, each `step` higher than the last
+ */
+function layoutRow(sizes: { width: number; height: number }[], gap: number, step: number): Box[] {
+  let cursor = 0;
+  return sizes.map((size, index) => {
+    const box = { x: cursor + size.width / 2, y: index * step, ...size };
+    cursor += size.width + gap;
+    return box;
+  });
+}
+
+/**
+ * Rows and columns sized to their largest frame, frames centered in their cell
+ */
+function layoutGrid(sizes: { width: number; height: number }[], gap: number, columns?: number): Box[] {
+  const columnCount = Math.max(1, Math.min(columns ?? Math.ceil(Math.sqrt(sizes.length)), sizes.length));
+  const rowCount = Math.ceil(sizes.length / columnCount);
+
+  const columnWidths = new Array(columnCount).fill(0);
+  const rowHeights = new Array(rowCount).fill(0);
+  sizes.forEach((size, index) => {
+    const column = index % columnCount;
+    const row = Math.floor(index / columnCount);
+    columnWidths[column] = Math.max(columnWidths[column], size.width);
+    rowHeights[row] = Math.max(rowHeights[row], size.height);
+  });
+
+  const columnCenters = offsetsFor(columnWidths, gap);
+  const rowCenters = offsetsFor(rowHeights, gap);
+
+  // Rows run top to bottom
+  return sizes.map((size, index) => ({
+    x: columnCenters[index % columnCount],
+    y: -rowCenters[Math.floor(index / columnCount)],
+    ...size
+  }));
+}
+
+/**
+ * Salon-style cluster: the largest frame in the middle, the rest packed around it
+ *
+ * Each frame, largest first, goes to the free spot next to an already placed
+ * frame that keeps the cluster's bounding box smallest, measured against a
+ * landscape target shape.
+ */
+function layoutSalon(sizes: { width: number; height: number }[], gap: number): Box[] {
+  const order = sizes
+    .map((size, index) => ({ size, index }))
+    .sort((a, b) => b.size.width * b.size.height - a.size.width * a.size.height);
+
+  const boxes: Box[] = new Array(sizes.length);
+  const placed: Box[] = [];
+
+  for (const { size, index } of order) {
+    if (placed.length === 0) {
+      boxes[index] = { x: 0, y: 0, ...size };
+      placed.push(boxes[index]);
+      continue;
+    }
+
+    let best: Box | null = null;
+    let bestScore = Infinity;
+
+    for (const candidate of getSalonCandidates(placed, size, gap)) {
+      if (placed.some(box => overlaps(box, candidate, gap))) continue;
+
+      const bounds = getBounds([...placed, candidate]);
+      const width = bounds.maxX - bounds.minX;
+      const height = bounds.maxY - bounds.minY;
+      // Extent first, then area, then closeness to the middle
+      const score = Math.max(width / SALON_ASPECT, height) +
+        width * height * 1e-3 +
+        Math.hypot(candidate.x, candidate.y) * EPSILON;
+      if (score < bestScore) {
+        bestScore = score;
+        best = candidate;
+      }
+    }
+
+    boxes[index] = best!;
+    placed.push(best!);
+  }
+
+  return boxes;
+}
+
+/**
+ * Spots touching a placed frame on each side: centered, or aligned to either edge
+ */
+function getSalonCandidates(placed: Box[], size: { width: number; height: number }, gap: number): Box[] {
+  const candidates: Box[] = [];
+
+  for (const box of placed) {
+    const sideX = box.width / 2 + gap + size.width / 2;
+    const sideY = box.height / 2 + gap + size.height / 2;
+    const alignY = [box.y, box.y + (box.height - size.height) / 2, box.y - (box.height - size.height) / 2];
+    const alignX = [box.x, box.x - (box.width - size.width) / 2, box.x + (box.width - size.width) / 2];
+
+    for (const y of alignY) {
+      candidates.push({ x: box.x + sideX, y, ...size }, { x: box.x - sideX, y, ...size });
+    }
+    for (const x of alignX) {
+      candidates.push({ x, y: box.y + sideY, ...size }, { x, y: box.y - sideY, ...size });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Centers of consecutive spans separated by `gap`, starting at 0
+ */
+function offsetsFor(spans: number[], gap: number): number[] {
+  let cursor = 0;
+  return spans.map(span => {
+    const center = cursor + span / 2;
+    cursor += span + gap;
+    return center;
+  });
+}
+
+function overlaps(a: Box, b: Box, gap: number): boolean {
+  return Math.abs(a.x - b.x) < (a.width + b.width) / 2 + gap - EPSILON &&
+    Math.abs(a.y - b.y) < (a.height + b.height) / 2 + gap - EPSILON;
+}
+
+function getBounds(boxes: Box[]): { minX: number; maxX: number; minY: number; maxY: number } {
+  return {
+    minX: Math.min(...boxes.map(box => box.x - box.width / 2)),
+    maxX: Math.max(...boxes.map(box => box.x + box.width / 2)),
+    minY: Math.min(...boxes.map(box => box.y - box.height / 2)),
+    maxY: Math.max(...boxes.map(box => box.y + box.height / 2))
+  };
+}
+
+/**
+ * Shift boxes so their bounding box is centered on the origin
+ */
+function centerLayout(boxes: Box[]): GalleryLayoutResult {
+  const bounds = getBounds(boxes);
+  const centerX = (bounds.minX + bounds.maxX) / 2;
+  const centerY = (bounds.minY + bounds.maxY) / 2;
+
+  return {
+    centers: boxes.map(box => new Vector2(box.x - centerX, box.y - centerY)),
+    width: bounds.maxX - bounds.minX,
+    height: bounds.maxY - bounds.minY
+  };
+}
@@ -0,0 +1,321 @@
+/**
+ * GestureController - Touch and mouse gestures for selecting and manipulating placed objects
+ *
+ * One finger drags the touched object (with the rest of its group) along its
+ * wall, two fingers pinch to scale and twist to rotate it about the wall
+ * normal. Gestures are previewed live and committed through `updateObject`
+ * when the last finger lifts. Drags snap to neighbours and the wall unless
+ * Alt is held.
+ */
+
+import { Vector2, Vector3, Quaternion, Euler, Plane } from 'three';
+import { FramerlyAREngine } from './FramerlyAREngine';
+import { FrameData, NeonData } from '../types';
+
+/** Pointer travel (px) below which a press counts as a tap */
+const TAP_SLOP = 10;
+/** Longest press (ms) still treated as a tap */
+const TAP_MAX_DURATION = 300;
+/** Scale limits relative to the object's original size */
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 5;
+
+interface ActiveGesture {
+  objectId: string;
+  // Object state when the current one- or two-finger phase began
+  start: FrameData | NeonData;
+  // Plane the object slides in: through its origin, facing out of the wall
+  wallPlane: Plane;
+  // Offset from the grabbed point on the wall to the object's origin
+  grabOffset: Vector3;
+  // Start positions of the other objects in the object's group
+  groupStarts: Map<string, Vector3>;
+  startDistance: number;
+  startAngle: number;
+  hasMoved: boolean;
+}
+
+export class GestureController {
+  private canvas: HTMLCanvasElement;
+  private engine: FramerlyAREngine;
+  private pointers: Map<number, Vector2> = new Map();
+  private gesture?: ActiveGesture;
+  private tapStart?: { position: Vector2; time: number };
+  // Cleared while the snapping modifier (Alt) is held
+  private snap = true;
+  private listeners: [keyof HTMLElementEventMap, (event: PointerEvent) => void][];
+
+  private onTapCallback?: (x: number, y: number) => void;
+  private onSizeReadoutCallback?: (object: FrameData | NeonData, size: { width: number; height: number }) => void;
+
+  constructor(canvas: HTMLCanvasElement, engine: FramerlyAREngine) {
+    this.canvas = canvas;
+    this.engine = engine;
+
+    this.listeners = [
+      ['pointerdown', this.onPointerDown.bind(this)],
+      ['pointermove', this.onPointerMove.bind(this)],
+      ['pointerup', this.onPointerUp.bind(this)],
+      ['pointercancel', this.onPointerCancel.bind(this)]
+    ];
+    for (const [type, listener] of this.listeners) {
+      this.canvas.addEventListener(type, listener as EventListener);
+    }
+
+    // Let the controller, not the browser, handle touch panning and zooming
+    this.canvas.style.touchAction = 'none';
+  }
+
+  /**
+   * Set callback for taps that didn't hit a placed object
+   */
+  onTap(callback: (x: number, y: number) => void): void {
+    this.onTapCallback = callback;
+  }
+
+  /**
+   * Set callback for the object's real-world size while pinching
+   */
+  onSizeReadout(callback: (object: FrameData | NeonData, size: { width: number; height: number }) => void): void {
+    this.onSizeReadoutCallback = callback;
+  }
+
+  /**
+   * Remove event listeners and revert any unfinished gesture
+   */
+  dispose(): void {
+    for (const [type, listener] of this.listeners) {
+      this.canvas.removeEventListener(type, listener as EventListener);
+    }
+    this.cancelGesture();
+  }
+
+  private onPointerDown(event: PointerEvent): void {
+    const position = this.getCanvasPosition(event);
+    this.pointers.set(event.pointerId, position);
+    this.canvas.setPointerCapture(event.pointerId);
+
+    if (this.pointers.size === 1) {
+      this.tapStart = { position, time: performance.now() };
+
+      const objectId = this.engine.pickObject(position.x, position.y);
+      if (objectId) {
+        this.engine.selectObject(objectId);
+        this.beginGesture(objectId);
+      }
+    } else if (this.gesture) {
+      // A finger was added or lifted: restart from the current state
+      this.tapStart = undefined;
+      this.beginGesture(this.gesture.objectId);
+    }
+  }
+
+  private onPointerMove(event: PointerEvent): void {
+    if (!this.pointers.has(event.pointerId)) return;
+    this.pointers.set(event.pointerId, this.getCanvasPosition(event));
+    this.snap = !event.altKey;
+
+    if (this.tapStart && this.pointers.size === 1) {
+      const moved = this.pointers.get(event.pointerId)!.distanceTo(this.tapStart.position);
+      if (moved <= TAP_SLOP) return;
+      this.tapStart = undefined;
+    }
+
+    if (!this.gesture) return;
+
+    if (this.pointers.size === 1) {
+      this.updateDrag();
+    } else {
+      this.updatePinchAndTwist();
+    }
+  }
+
+  private onPointerUp(event: PointerEvent): void {
+    if (!this.pointers.has(event.pointerId)) return;
+
+    const position = this.getCanvasPosition(event);
+    this.pointers.delete(event.pointerId);
+
+    if (this.pointers.size > 0) {
+      // Continue with the remaining finger from the current state
+      if (this.gesture) this.beginGesture(this.gesture.objectId);
+      return;
+    }
+
+    const isTap = this.tapStart && performance.now() - this.tapStart.time <= TAP_MAX_DURATION;
+    this.tapStart = undefined;
+
+    if (this.gesture) {
+      this.commitGesture();
+    } else if (isTap) {
+      this.engine.selectObject(null);
+      this.onTapCallback?.(position.x, position.y);
+    }
+  }
+
+  private onPointerCancel(event: PointerEvent): void {
+    this.pointers.delete(event.pointerId);
+    if (this.pointers.size === 0) {
+      this.tapStart = undefined;
+      this.cancelGesture();
+    }
+  }
+
+  /**
+   * Capture the object and pointer state a gesture phase is measured from
+   */
+  private beginGesture(objectId: string): void {
+    const object = this.engine.getObject(objectId);
+    if (!object) {
+      this.gesture = undefined;
+      return;
+    }
+
+    const normal = new Vector3(0, 0, 1).applyEuler(object.rotation);
+    const wallPlane = new Plane().setFromNormalAndCoplanarPoint(normal, object.position);
+
+    const [first, second] = Array.from(this.pointers.values());
+    const grabPoint = this.intersectWall(first, wallPlane);
+
+    const groupStarts = new Map<string, Vector3>();
+    if (object.groupId) {
+      for (const member of this.engine.getGroupObjects(object.groupId)) {
+        if (member.id !== objectId) groupStarts.set(member.id, member.position.clone());
+      }
+    }
+
+    this.gesture = {
+      objectId,
+      start: {
+        ...object,
+        position: object.position.clone(),
+        rotation: object.rotation.clone(),
+        scale: object.scale.clone()
+      },
+      wallPlane,
+      grabOffset: grabPoint ? object.position.clone().sub(grabPoint) : new Vector3(),
+      groupStarts,
+      startDistance: second ? first.distanceTo(second) : 0,
+      startAngle: second ? this.getScreenAngle(first, second) : 0,
+      hasMoved: this.gesture?.objectId === objectId && this.gesture.hasMoved
+    };
+  }
+
+  /**
+   * Slide the object so the grabbed point follows the finger across the wall
+   */
+  private updateDrag(): void {
+    const gesture = this.gesture!;
+    const [pointer] = Array.from(this.pointers.values());
+
+    const point = this.intersectWall(pointer, gesture.wallPlane);
+    if (!point) return;
+
+    gesture.hasMoved = true;
+    this.engine.previewObject(gesture.objectId, { position: point.add(gesture.grabOffset) }, { snap: this.snap });
+
+    // The rest of the group follows the (possibly snapped) dragged object
+    const dragged = this.engine.getObject(gesture.objectId);
+    if (!dragged) return;
+    const offset = dragged.position.clone().sub(gesture.start.position);
+    for (const [memberId, start] of gesture.groupStarts.entries()) {
+      this.engine.previewObject(memberId, { position: start.clone().add(offset) }, { snap: false });
+    }
+  }
+
+  /**
+   * Scale by the change in finger spread and rotate by the change in their angle
+   */
+  private updatePinchAndTwist(): void {
+    const gesture = this.gesture!;
+    const [first, second] = Array.from(this.pointers.values());
+    if (gesture.startDistance === 0) return;
+
+    const factor = first.distanceTo(second) / gesture.startDistance;
+    const scale = gesture.start.scale.clone().multiplyScalar(factor);
+    const uniform = Math.min(Math.max(scale.x, MIN_SCALE), MAX_SCALE);
+    scale.setScalar(uniform);
+
+    // Counter-clockwise on screen turns the object counter-clockwise as seen
+    // from in front of the wall, i.e. positively about the wall normal
+    const twist = this.getScreenAngle(first, second) - gesture.startAngle;
+    const rotation = new Quaternion()
+      .setFromAxisAngle(gesture.wallPlane.normal, twist)
+      .multiply(new Quaternion().setFromEuler(gesture.start.rotation));
+
+    gesture.hasMoved = true;
+    this.engine.previewObject(gesture.objectId, {
+      scale,
+      rotation: new Euler().setFromQuaternion(rotation, gesture.start.rotation.order)
+    });
+
+    const object = this.engine.getObject(gesture.objectId);
+    const size = this.engine.getObjectSize(gesture.objectId);
+    if (object && size) {
+      this.onSizeReadoutCallback?.(object, size);
+    }
+  }
+
+  /**
+   * Record the gesture's result as a single update
+   */
+  private commitGesture(): void {
+    const gesture = this.gesture;
+    this.gesture = undefined;
+    if (!gesture?.hasMoved) return;
+
+    const commit = (objectId: string) => {
+      const object = this.engine.getObject(objectId);
+      if (object) {
+        // Snapping was already applied (or skipped) during the preview
+        this.engine.updateObject(objectId, {
+          position: object.position.clone(),
+          rotation: object.rotation.clone(),
+          scale: object.scale.clone()
+        }, { snap: false });
+      }
+    };
+
+    const objectIds = [gesture.objectId, ...gesture.groupStarts.keys()];
+    try {
+      if (objectIds.length === 1) {
+        commit(gesture.objectId);
+      } else {
+        // Synchronous, so the batch is closed before the next gesture starts
+        this.engine.batch('Move group', () => objectIds.forEach(commit));
+      }
+    } catch (error) {
+      console.warn('Failed to commit gesture:', error);
+      objectIds.forEach(objectId => this.engine.cancelPreview(objectId));
+    }
+  }
+
+  private cancelGesture(): void {
+    if (this.gesture) {
+      for (const objectId of [this.gesture.objectId, ...this.gesture.groupStarts.keys()]) {
+        this.engine.cancelPreview(objectId);
+      }
+      this.gesture = undefined;
+    }
+  }
+
+  /**
+   * Point where the ray through a canvas position meets the wall plane
+   */
+  private intersectWall(pointer: Vector2, wallPlane: Plane): Vector3 | null {
+    const ray = this.engine.getScreenRay(pointer.x, pointer.y);
+    return ray.intersectPlane(wallPlane, new Vector3());
+  }
+
+  /**
+   * Angle of the line between two canvas points, counter-clockwise with y up
+   */
+  private getScreenAngle(a: Vector2, b: Vector2): number {
+    return Math.atan2(-(b.y - a.y), b.x - a.x);
+  }
+
+  private getCanvasPosition(event: PointerEvent): Vector2 {
+    const rect = this.canvas.getBoundingClientRect();
+    return new Vector2(event.clientX - rect.left, event.clientY - rect.top);
+  }
+}
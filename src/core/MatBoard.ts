@@ -0,0 +1,152 @@
+/**
+ * MatBoard - Mat layout and bevel-cut mat geometry for framed artwork
+ *
+ * Mats share one outer edge, which sits under the frame's rabbet. The top mat
+ * has the largest opening; each mat below shows a reveal inside the one above,
+ * and the bottom mat's opening frames the artwork.
+ */
+
+import { BufferGeometry, Float32BufferAttribute, Vector2, Vector3 } from 'three';
+import { FrameData, MatBorder } from '../types';
+
+/** Mat board thickness in meters (4-ply); also the width of its 45° bevel */
+export const MAT_THICKNESS = 0.0015;
+
+/** Color of the board's core, exposed by the bevel cut */
+export const MAT_CORE_COLOR = '#f7f5ee';
+
+/** How far the bottom mat overlaps the artwork's edges, in meters */
+const MAT_OVERLAP = 0.003;
+
+/** Border used when a matted frame doesn't set one; the bottom is weighted */
+const DEFAULT_MAT_BORDER: MatBorder = { top: 0.05, right: 0.05, bottom: 0.06, left: 0.05 };
+
+export interface MatLayer {
+  color: string;
+  openingWidth: number;
+  openingHeight: number;
+}
+
+export interface MatLayout {
+  // Size of the matted area, which the moulding goes around
+  width: number;
+  height: number;
+  // Center of the openings (and the artwork) relative to the matted area's center
+  center: Vector2;
+  // Top mat first
+  layers: MatLayer[];
+}
+
+interface Rect {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+/**
+ * Compute the mats around a frame's artwork
+ *
+ * Without a mat the matted area is just the artwork.
+ */
+export function getMatLayout(frame: Pick<FrameData, 'width' | 'height' | 'matColor' | 'matBorder' | 'innerMats'>): MatLayout {
+  if (!frame.matColor || frame.matColor === 'none') {
+    return { width: frame.width, height: frame.height, center: new Vector2(), layers: [] };
+  }
+
+  const layers: MatLayer[] = [];
+  let openingWidth = frame.width - MAT_OVERLAP * 2;
+  let openingHeight = frame.height - MAT_OVERLAP * 2;
+
+  // Work outwards from the bottom mat
+  const innerMats = frame.innerMats ?? [];
+  for (let i = innerMats.length - 1; i >= 0; i--) {
+    layers.unshift({ color: innerMats[i].color, openingWidth, openingHeight });
+    openingWidth += innerMats[i].reveal * 2;
+    openingHeight += innerMats[i].reveal * 2;
+  }
+  layers.unshift({ color: frame.matColor, openingWidth, openingHeight });
+
+  const border = frame.matBorder ?? DEFAULT_MAT_BORDER;
+  return {
+    width: openingWidth + border.left + border.right,
+    height: openingHeight + border.top + border.bottom,
+    center: new Vector2((border.left - border.right) / 2, (border.bottom - border.top) / 2),
+    layers
+  };
+}
+
+/**
+ * Build one mat board
+ *
+ * The back is at z = 0 and the face at z = MAT_THICKNESS. Group 0 is the
+ * board's face, group 1 the bevel around the opening, which widens towards
+ * the front at 45°. The outer edge and back are hidden and left open.
+ */
+export function createMatGeometry(layout: MatLayout, layer: MatLayer): BufferGeometry {
+  const outer: Rect = {
+    minX: -layout.width / 2,
+    maxX: layout.width / 2,
+    minY: -layout.height / 2,
+    maxY: layout.height / 2
+  };
+  const back = centeredRect(layout.center, layer.openingWidth, layer.openingHeight);
+  const front = centeredRect(layout.center, layer.openingWidth + MAT_THICKNESS * 2, layer.openingHeight + MAT_THICKNESS * 2);
+
+  const positions: number[] = [];
+  const geometry = new BufferGeometry();
+
+  addRing(positions, front, outer, MAT_THICKNESS, MAT_THICKNESS);
+  geometry.addGroup(0, positions.length / 3, 0);
+
+  const bevelStart = positions.length / 3;
+  addRing(positions, back, front, 0, MAT_THICKNESS);
+  geometry.addGroup(bevelStart, positions.length / 3 - bevelStart, 1);
+
+  geometry.setAttribute('position', new Float32BufferAttribute(positions, 3));
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+function centeredRect(center: Vector2, width: number, height: number): Rect {
+  return {
+    minX: center.x - width / 2,
+    maxX: center.x + width / 2,
+    minY: center.y - height / 2,
+    maxY: center.y + height / 2
+  };
+}
+
+/**
+ * Four quads joining an inner rectangle to an outer one, facing the front
+ * and into the opening
+ */
+function addRing(positions: number[], inner: Rect, outer: Rect, innerZ: number, outerZ: number): void {
+  const corners = (rect: Rect, z: number) => [
+    new Vector3(rect.minX, rect.maxY, z),
+    new Vector3(rect.maxX, rect.maxY, z),
+    new Vector3(rect.maxX, rect.minY, z),
+    new Vector3(rect.minX, rect.minY, z)
+  ];
+  const innerCorners = corners(inner, innerZ);
+  const outerCorners = corners(outer, outerZ);
+
+  // Outward direction of the top, right, bottom and left sides
+  const outwards = [new Vector3(0, 1, 0), new Vector3(1, 0, 0), new Vector3(0, -1, 0), new Vector3(-1, 0, 0)];
+  const normal = new Vector3();
+  const edge = new Vector3();
+  const expected = new Vector3();
+
+  outwards.forEach((outward, side) => {
+    const next = (side + 1) % 4;
+    const quad = [innerCorners[side], innerCorners[next], outerCorners[next], outerCorners[side]];
+
+    expected.copy(outward).multiplyScalar(innerZ - outerZ).setZ(1);
+    normal.subVectors(quad[1], quad[0]).cross(edge.subVectors(quad[3], quad[0]));
+    if (normal.dot(expected) < 0) quad.reverse();
+
+    for (const index of [0, 1, 2, 0, 2, 3]) {
+      positions.push(quad[index].x, quad[index].y, quad[index].z);
+    }
+  });
+}
@@ -0,0 +1,160 @@
+/**
+ * MeasurementOverlay - Dimension lines with real-world length labels
+ */
+
+import {
+  Scene,
+  Group,
+  LineSegments,
+  BufferGeometry,
+  LineBasicMaterial,
+  Sprite,
+  SpriteMaterial,
+  CanvasTexture,
+  Vector3
+} from 'three';
+
+import { MeasurementUnit } from '../types';
+
+const LINE_COLOR = 0xffffff;
+const LABEL_HEIGHT = 0.03; // meters
+const LABEL_FONT_SIZE = 48; // px on the label canvas
+const METERS_PER_INCH = 0.0254;
+
+export interface MeasurementLine {
+  start: Vector3;
+  end: Vector3;
+  label: string;
+}
+
+/**
+ * Format a length in meters for display, to at most one decimal
+ */
+export function formatLength(meters: number, unit: MeasurementUnit): string {
+  const value = unit === 'in' ? meters / METERS_PER_INCH : meters * 100;
+  return `${Number(value.toFixed(1))} ${unit}`;
+}
+
+/**
+ * Format a width × height size in meters for display
+ */
+export function formatSize(width: number, height: number, unit: MeasurementUnit): string {
+  const scale = unit === 'in' ? 1 / METERS_PER_INCH : 100;
+  return `${Number((width * scale).toFixed(1))} × ${Number((height * scale).toFixed(1))} ${unit}`;
+}
+
+interface Label {
+  sprite: Sprite;
+  text: string;
+}
+
+export class MeasurementOverlay {
+  private scene: Scene;
+  private group: Group;
+  private lines: LineSegments<BufferGeometry, LineBasicMaterial>;
+  // Reused between updates; label textures are only redrawn when their text changes
+  private labels: Label[] = [];
+
+  constructor(scene: Scene) {
+    this.scene = scene;
+    this.group = new Group();
+    this.group.visible = false;
+
+    this.lines = new LineSegments(
+      new BufferGeometry(),
+      new LineBasicMaterial({ color: LINE_COLOR, depthTest: false, transparent: true })
+    );
+    this.lines.renderOrder = 2;
+    this.lines.frustumCulled = false;
+    this.group.add(this.lines);
+
+    this.scene.add(this.group);
+  }
+
+  /**
+   * Replace the drawn dimension lines
+   */
+  update(measurements: MeasurementLine[]): void {
+    this.group.visible = measurements.length > 0;
+
+    this.lines.geometry.dispose();
+    this.lines.geometry = new BufferGeometry().setFromPoints(
+      measurements.flatMap(measurement => [measurement.start, measurement.end])
+    );
+
+    measurements.forEach((measurement, index) => {
+      const label = this.labels[index] ?? this.createLabel();
+      if (label.text !== measurement.label) {
+        this.drawLabel(label, measurement.label);
+      }
+      label.sprite.position.copy(measurement.start).add(measurement.end).multiplyScalar(0.5);
+      label.sprite.visible = true;
+    });
+
+    for (let i = measurements.length; i < this.labels.length; i++) {
+      this.labels[i].sprite.visible = false;
+    }
+  }
+
+  /**
+   * Hide all dimension lines
+   */
+  clear(): void {
+    this.group.visible = false;
+  }
+
+  /**
+   * Dispose all meshes and label textures
+   */
+  dispose(): void {
+    this.scene.remove(this.group);
+    this.lines.geometry.dispose();
+    this.lines.material.dispose();
+
+    for (const label of this.labels) {
+      label.sprite.material.map?.dispose();
+      label.sprite.material.dispose();
+    }
+    this.labels = [];
+  }
+
+  private createLabel(): Label {
+    const sprite = new Sprite(new SpriteMaterial({ depthTest: false, transparent: true }));
+    sprite.renderOrder = 3;
+    this.group.add(sprite);
+
+    const label = { sprite, text: '' };
+    this.labels.push(label);
+    return label;
+  }
+
+  /**
+   * Render label text onto a dark backing
+   */
+  private drawLabel(label: Label, text: string): void {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d')!;
+    const font = `600 ${LABEL_FONT_SIZE}px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif`;
+
+    ctx.font = font;
+    const padding = LABEL_FONT_SIZE * 0.4;
+    canvas.width = Math.ceil(ctx.measureText(text).width + padding * 2);
+    canvas.height = Math.ceil(LABEL_FONT_SIZE * 1.5);
+
+    // Resizing the canvas resets the context state
+    ctx.font = font;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, canvas.width / 2, canvas.height / 2);
+
+    label.sprite.material.map?.dispose();
+    label.sprite.material.map = new CanvasTexture(canvas);
+    label.sprite.material.needsUpdate = true;
+    label.sprite.scale.set(LABEL_HEIGHT * canvas.width / canvas.height, LABEL_HEIGHT, 1);
+    label.text = text;
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * PlaneGeometry - Geometric helpers for detected planes
+ *
+ * Plane polygons are stored in plane space: points lie in the XZ plane and the
+ * plane normal is the pose's +Y axis.
+ */
+
+import { Vector2, Vector3, Matrix4 } from 'three';
+import { PlaneData, WallExtents } from '../types';
+
+// Two planes are treated as the same surface within these tolerances
+const COPLANAR_MAX_ANGLE = 10 * Math.PI / 180; // radians
+const COPLANAR_MAX_DISTANCE = 0.05; // meters
+
+/**
+ * Get the world-space normal of a plane (the Y axis of its pose)
+ */
+export function getPlaneNormal(plane: PlaneData): Vector3 {
+  return new Vector3(0, 1, 0).applyQuaternion(plane.pose.orientation);
+}
+
+/**
+ * Build a world matrix from a plane's pose
+ */
+export function getPlaneMatrix(plane: PlaneData): Matrix4 {
+  return new Matrix4()
+    .makeRotationFromQuaternion(plane.pose.orientation)
+    .setPosition(plane.pose.position);
+}
+
+/**
+ * Express a world-space point in plane space
+ */
+export function toPlaneSpace(plane: PlaneData, point: Vector3): Vector3 {
+  return point.clone().applyMatrix4(getPlaneMatrix(plane).invert());
+}
+
+/**
+ * Signed distance of a world-space point from the plane surface
+ */
+export function getDistanceToPlane(plane: PlaneData, point: Vector3): number {
+  return getPlaneNormal(plane).dot(point.clone().sub(plane.pose.position));
+}
+
+/**
+ * Area of a plane-space polygon
+ */
+export function getPolygonArea(polygon: Vector3[]): number {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    area += a.x * b.z - b.x * a.z;
+  }
+  return Math.abs(area) / 2;
+}
+
+/**
+ * Even-odd test of a plane-space point against a plane-space polygon (XZ only)
+ */
+export function isPointInPolygon(point: Vector3, polygon: Vector3[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.z > point.z) !== (b.z > point.z) &&
+        point.x < (b.x - a.x) * (point.z - a.z) / (b.z - a.z) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Check whether a world-space point lies on a plane's surface and within its polygon
+ */
+export function isPointOnPlane(plane: PlaneData, point: Vector3, tolerance = COPLANAR_MAX_DISTANCE): boolean {
+  if (Math.abs(getDistanceToPlane(plane, point)) > tolerance) return false;
+  return plane.polygon.length >= 3 && isPointInPolygon(toPlaneSpace(plane, point), plane.polygon);
+}
+
+/**
+ * Check whether two planes lie on the same surface (similar normal and offset)
+ */
+export function arePlanesCoplanar(a: PlaneData, b: PlaneData): boolean {
+  const normalA = getPlaneNormal(a);
+  const normalB = getPlaneNormal(b);
+
+  // Normals may be flipped between fragments of the same surface
+  if (Math.abs(normalA.dot(normalB)) < Math.cos(COPLANAR_MAX_ANGLE)) return false;
+
+  return Math.abs(getDistanceToPlane(a, b.pose.position)) <= COPLANAR_MAX_DISTANCE;
+}
+
+/**
+ * Find the plane best suited to hold a world-space point
+ *
+ * Candidates must contain the point; the one whose surface is closest wins.
+ */
+export function findPlaneForPoint(
+  planes: PlaneData[],
+  point: Vector3,
+  orientation?: PlaneData['orientation']
+): PlaneData | null {
+  let best: PlaneData | null = null;
+  let bestDistance = Infinity;
+
+  for (const plane of planes) {
+    if (orientation && plane.orientation !== orientation) continue;
+    if (!isPointOnPlane(plane, point)) continue;
+
+    const distance = Math.abs(getDistanceToPlane(plane, point));
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = plane;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Transform a plane's polygon into world space
+ */
+export function getWorldPolygon(plane: PlaneData): Vector3[] {
+  const matrix = getPlaneMatrix(plane);
+  return plane.polygon.map(point => point.clone().applyMatrix4(matrix));
+}
+
+/**
+ * Compute a wall's usable extents in a gravity-aligned wall space
+ *
+ * u runs horizontally along the wall and v straight up, both in meters from
+ * the plane's origin, so width and height are real-world wall dimensions.
+ */
+export function getWallExtents(plane: PlaneData): WallExtents {
+  const normal = getPlaneNormal(plane);
+  const up = new Vector3(0, 1, 0).addScaledVector(normal, -normal.y);
+
+  // Floors and ceilings have no vertical direction; use the plane's own axis
+  if (up.lengthSq() < 1e-6) {
+    up.set(0, 0, -1).applyQuaternion(plane.pose.orientation);
+  }
+  up.normalize();
+
+  const right = new Vector3().crossVectors(up, normal).normalize();
+  const origin = plane.pose.position.clone();
+
+  const extents: WallExtents = {
+    planeId: plane.id,
+    origin,
+    right,
+    up,
+    normal,
+    minU: 0,
+    maxU: 0,
+    minV: 0,
+    maxV: 0,
+    width: 0,
+    height: 0
+  };
+
+  const points = getWorldPolygon(plane).map(point => toWallSpace(extents, point));
+  if (points.length > 0) {
+    extents.minU = Math.min(...points.map(p => p.x));
+    extents.maxU = Math.max(...points.map(p => p.x));
+    extents.minV = Math.min(...points.map(p => p.y));
+    extents.maxV = Math.max(...points.map(p => p.y));
+    extents.width = extents.maxU - extents.minU;
+    extents.height = extents.maxV - extents.minV;
+  }
+
+  return extents;
+}
+
+/**
+ * Project a world-space point into wall space (u, v)
+ */
+export function toWallSpace(extents: WallExtents, point: Vector3): Vector2 {
+  const offset = point.clone().sub(extents.origin);
+  return new Vector2(offset.dot(extents.right), offset.dot(extents.up));
+}
+
+/**
+ * Lift a wall-space point back into the world, `depth` meters off the wall
+ */
+export function fromWallSpace(extents: WallExtents, u: number, v: number, depth = 0): Vector3 {
+  return extents.origin.clone()
+    .addScaledVector(extents.right, u)
+    .addScaledVector(extents.up, v)
+    .addScaledVector(extents.normal, depth);
+}
+
+/**
+ * Reference frame for a wall that can be found again in a later session
+ *
+ * Origin sits on the wall at its horizontal center, at floor level when the
+ * floor is known (otherwise at the wall's lowest detected point). Axes are the
+ * wall's right, up and normal directions.
+ */
+export function getWallReferenceMatrix(extents: WallExtents, floorHeight: number | null): Matrix4 {
+  const u = (extents.minU + extents.maxU) / 2;
+  const v = floorHeight !== null ? floorHeight - extents.origin.y : extents.minV;
+
+  return new Matrix4()
+    .makeBasis(extents.right, extents.up, extents.normal)
+    .setPosition(fromWallSpace(extents, u, v));
+}
+
+/**
+ * World height of the floor: the lowest upward-facing horizontal plane
+ */
+export function getFloorHeight(planes: PlaneData[]): number | null {
+  const floors = planes.filter(plane =>
+    plane.orientation === 'horizontal' && getPlaneNormal(plane).y > 0
+  );
+  return floors.length > 0 ? Math.min(...floors.map(plane => plane.pose.position.y)) : null;
+}
+
+/**
+ * World height of the ceiling: the highest downward-facing horizontal plane
+ */
+export function getCeilingHeight(planes: PlaneData[]): number | null {
+  const ceilings = planes.filter(plane =>
+    plane.orientation === 'horizontal' && getPlaneNormal(plane).y < 0
+  );
+  return ceilings.length > 0 ? Math.max(...ceilings.map(plane => plane.pose.position.y)) : null;
+}
+
+/**
+ * Convex hull of plane-space points (XZ), counter-clockwise, via monotone chain
+ */
+export function computeConvexHull(points: Vector3[]): Vector3[] {
+  const sorted = points
+    .map(point => new Vector3(point.x, 0, point.z))
+    .sort((a, b) => a.x - b.x || a.z - b.z);
+
+  if (sorted.length < 3) return sorted;
+
+  const cross = (o: Vector3, a: Vector3, b: Vector3) =>
+    (a.x - o.x) * (b.z - o.z) - (a.z - o.z) * (b.x - o.x);
+
+  const lower: Vector3[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) {
+      lower.pop();
+    }
+    lower.push(point);
+  }
+
+  const upper: Vector3[] = [];
+  for (const point of [...sorted].reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) {
+      upper.pop();
+    }
+    upper.push(point);
+  }
+
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+}
+
+/**
+ * Check whether two coplanar planes' polygons overlap or nearly touch
+ *
+ * Compares axis-aligned bounds in `a`'s plane space, which is enough to tell
+ * fragments of one wall from separate walls that happen to share a plane.
+ */
+export function arePolygonsAdjacent(a: PlaneData, b: PlaneData, maxGap: number): boolean {
+  if (a.polygon.length === 0 || b.polygon.length === 0) return false;
+
+  const toA = getPlaneMatrix(a).invert();
+  const boundsA = getBounds(a.polygon);
+  const boundsB = getBounds(getWorldPolygon(b).map(point => point.applyMatrix4(toA)));
+
+  return boundsA.minX - maxGap <= boundsB.maxX && boundsB.minX - maxGap <= boundsA.maxX &&
+    boundsA.minZ - maxGap <= boundsB.maxZ && boundsB.minZ - maxGap <= boundsA.maxZ;
+}
+
+/**
+ * Axis-aligned XZ bounds of plane-space points
+ */
+function getBounds(points: Vector3[]): { minX: number; maxX: number; minZ: number; maxZ: number } {
+  return {
+    minX: Math.min(...points.map(p => p.x)),
+    maxX: Math.max(...points.map(p => p.x)),
+    minZ: Math.min(...points.map(p => p.z)),
+    maxZ: Math.max(...points.map(p => p.z))
+  };
+}
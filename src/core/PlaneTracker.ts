@@ -3,21 +3,57 @@
  */
 
 import { Vector3, Quaternion, Matrix4 } from 'three';
-import { PlaneData, TrackingState, WebXRSupport } from '../types';
+import { AREngineConfig, HitPose, PlaneData, TrackingState, WebXRSupport } from '../types';
 import { PoseFilter } from './PoseFilter';
+import { Renderer } from './Renderer';
+import {
+  getPlaneNormal,
+  getPlaneMatrix,
+  getPolygonArea,
+  getWorldPolygon,
+  computeConvexHull,
+  arePlanesCoplanar,
+  arePolygonsAdjacent,
+  isPointOnPlane
+} from './PlaneGeometry';
+
+// Planes not reported for this long are first in line for eviction
+const PLANE_STALE_TIME = 1000; // ms
+
+// Pose changes below these thresholds are not announced as plane updates
+const UPDATE_POSITION_THRESHOLD = 0.01; // meters
+const UPDATE_ANGLE_THRESHOLD = 2 * Math.PI / 180; // radians
+
+// Coplanar fragments closer than this are treated as parts of one wall
+const FRAGMENT_MAX_GAP = 0.25; // meters
 
 export class PlaneTracker {
   private xrSession?: XRSession;
   private xrRefSpace?: XRReferenceSpace;
+  private viewerSpace?: XRReferenceSpace;
   private hitTestSource?: XRHitTestSource;
+  private transientHitTestSource?: XRTransientInputHitTestSource;
   private planes: Map<string, PlaneData> = new Map();
-  private poseFilter: PoseFilter;
+  private latestHit: HitPose | null = null;
+  // Durable IDs for XRPlane objects, which carry no ID of their own
+  private fragmentIds: WeakMap<XRPlane, string> = new WeakMap();
+  private nextPlaneId = 1;
+  // Logical plane each fragment currently belongs to
+  private fragmentPlaneIds: Map<string, string> = new Map();
+  private poseFilters: Map<string, PoseFilter> = new Map();
+  // Plane state as last reported through onPlaneDetected / onPlaneUpdated
+  private announcedPlanes: Map<string, PlaneData> = new Map();
+  private config: AREngineConfig;
   private trackingState: TrackingState = TrackingState.NOT_TRACKING;
   private onPlaneDetectedCallback?: (plane: PlaneData) => void;
+  private onPlaneUpdatedCallback?: (plane: PlaneData) => void;
+  private onPlaneRemovedCallback?: (plane: PlaneData) => void;
+  private onPlanesMergedCallback?: (plane: PlaneData, mergedPlaneIds: string[]) => void;
   private onTrackingStateChangedCallback?: (state: TrackingState) => void;
+  private onSessionEndedCallback?: () => void;
 
-  constructor() {
-    this.poseFilter = new PoseFilter();
+  constructor(config: AREngineConfig) {
+    this.config = config;
   }
 
   /**
@@ -60,7 +96,7 @@ export class PlaneTracker {
         immersiveAr: true,
         hitTest: true, // Assume hit-test is available if AR is supported
         planeDetection: true, // Assume plane detection is available if AR is supported
-        anchors: false // Anchors are optional and not critical
+        anchors: 'XRAnchor' in window
       };
     } catch (error) {
       console.error('Error checking WebXR support:', error);
@@ -87,11 +123,14 @@ export class PlaneTracker {
       // Request AR session with required features
       this.xrSession = await navigator.xr.requestSession('immersive-ar', {
         requiredFeatures: ['local'],
-        optionalFeatures: ['hit-test', 'plane-detection', 'anchors']
+        optionalFeatures: ['hit-test', 'plane-detection', 'anchors', 'dom-overlay'],
+        // Keep page UI and pointer events (taps, gestures) available during AR
+        domOverlay: { root: document.body }
       });
 
       // Set up reference space
       this.xrRefSpace = await this.xrSession.requestReferenceSpace('local');
+      this.viewerSpace = await this.xrSession.requestReferenceSpace('viewer');
 
       // Initialize hit test source
       await this.initializeHitTest();
@@ -113,18 +152,26 @@ export class PlaneTracker {
    * Initialize hit test for plane detection
    */
   private async initializeHitTest(): Promise<void> {
-    if (!this.xrSession || !this.xrRefSpace) return;
+    if (!this.xrSession || !this.viewerSpace) return;
 
     try {
       // Check if hit test is supported
-      if ('requestHitTestSource' in this.xrSession) {
-        this.hitTestSource = await (this.xrSession as any).requestHitTestSource({
-          space: this.xrRefSpace
+      if (this.xrSession.requestHitTestSource) {
+        // Continuous source along the viewer's forward ray (screen center)
+        this.hitTestSource = await this.xrSession.requestHitTestSource({
+          space: this.viewerSpace
         });
         console.log('Hit test source initialized');
       } else {
         console.warn('Hit test not supported on this device');
       }
+
+      // Screen touches inside the session arrive as transient input sources
+      if (this.xrSession.requestHitTestSourceForTransientInput) {
+        this.transientHitTestSource = await this.xrSession.requestHitTestSourceForTransientInput({
+          profile: 'generic-touchscreen'
+        });
+      }
     } catch (error) {
       console.warn('Hit test not supported, using fallback plane detection:', error);
     }
@@ -133,7 +180,7 @@ export class PlaneTracker {
   /**
    * Update tracking on each frame
    */
-  update(frame: XRFrame, _renderer: any): void {
+  update(frame: XRFrame, renderer: Renderer): void {
     if (!this.xrSession || !this.xrRefSpace) return;
 
     try {
@@ -145,6 +192,12 @@ export class PlaneTracker {
 
       // Update tracking stability
       this.updateTrackingStability();
+
+      // Update overlays
+      if (this.config.enablePlaneVisualization) {
+        renderer.updatePlaneVisualization(this.getDetectedPlanes());
+      }
+      renderer.updateReticle(this.latestHit);
       
     } catch (error) {
       console.warn('Error updating plane tracking:', error);
@@ -154,89 +207,377 @@ export class PlaneTracker {
 
   /**
    * Update detected planes from WebXR
+   *
+   * Each XRPlane is tracked as a fragment with its own pose filter. Coplanar,
+   * adjacent fragments of one wall are then merged into a single logical plane.
+   * A fragment missing for a few frames keeps its filter; filters are only
+   * dropped with their plane.
    */
   private updatePlaneDetection(frame: XRFrame): void {
     try {
-      // @ts-ignore - WebXR plane detection API
       const detectedPlanes = frame.detectedPlanes;
       
       if (!detectedPlanes) return;
 
-      detectedPlanes.forEach((xrPlane: any) => {
-      const planeId = xrPlane.planeId || `plane_${Date.now()}_${Math.random()}`;
-      
-      // Get plane pose
-      const planePose = frame.getPose(xrPlane.planeSpace, this.xrRefSpace!);
-      if (!planePose) return;
+      const fragments: PlaneData[] = [];
+      detectedPlanes.forEach((xrPlane) => {
+        const fragment = this.updateFragment(frame, xrPlane);
+        if (fragment) {
+          fragments.push(fragment);
+        }
+      });
 
-      // Convert to Three.js format
-      const position = new Vector3().setFromMatrixPosition(
-        new Matrix4().fromArray(planePose.transform.matrix)
+      this.mergeFragments(fragments);
+
+      // Clean up old planes
+      this.cleanupOldPlanes();
+    } catch (error) {
+      console.warn('Error in plane detection:', error);
+    }
+  }
+
+  /**
+   * Get the durable ID of an XRPlane, assigning one on first sight
+   */
+  private getFragmentId(xrPlane: XRPlane): string {
+    let fragmentId = this.fragmentIds.get(xrPlane);
+    if (!fragmentId) {
+      fragmentId = `plane_${this.nextPlaneId++}`;
+      this.fragmentIds.set(xrPlane, fragmentId);
+    }
+    return fragmentId;
+  }
+
+  /**
+   * Filter a single XRPlane's pose into fragment plane data
+   */
+  private updateFragment(frame: XRFrame, xrPlane: XRPlane): PlaneData | null {
+    const fragmentId = this.getFragmentId(xrPlane);
+    
+    // Get plane pose
+    const planePose = frame.getPose(xrPlane.planeSpace, this.xrRefSpace!);
+    if (!planePose) return null;
+
+    // Convert to Three.js format
+    const position = new Vector3().setFromMatrixPosition(
+      new Matrix4().fromArray(planePose.transform.matrix)
+    );
+    
+    const orientation = new Quaternion().setFromRotationMatrix(
+      new Matrix4().fromArray(planePose.transform.matrix)
+    );
+
+    // Apply pose filtering (each fragment keeps its own filter history)
+    let poseFilter = this.poseFilters.get(fragmentId);
+    if (!poseFilter) {
+      poseFilter = new PoseFilter(this.config.poseFilter);
+      this.poseFilters.set(fragmentId, poseFilter);
+    }
+    const filtered = poseFilter.filter(position, orientation);
+
+    // Determine plane orientation (vertical for walls)
+    const normal = new Vector3(0, 1, 0).applyQuaternion(filtered.rotation);
+    const isVertical = Math.abs(normal.y) < 0.5; // Wall planes are mostly vertical
+
+    return {
+      id: fragmentId,
+      pose: {
+        position: filtered.position,
+        orientation: filtered.rotation
+      },
+      polygon: this.extractPlanePolygon(xrPlane),
+      orientation: isVertical ? 'vertical' : 'horizontal',
+      isStable: filtered.isStable,
+      lastUpdate: performance.now()
+    };
+  }
+
+  /**
+   * Group fragments into logical planes and store them
+   *
+   * Larger fragments are grouped first so a wall's pose follows its main
+   * fragment. A fragment keeps its previous logical plane when it still fits;
+   * a logical plane whose fragments all joined another one is reported merged.
+   */
+  private mergeFragments(fragments: PlaneData[]): void {
+    const sorted = [...fragments].sort(
+      (a, b) => getPolygonArea(b.polygon) - getPolygonArea(a.polygon)
+    );
+
+    const groups: { id: string; fragments: PlaneData[] }[] = [];
+    const absorbedInto: Map<string, string> = new Map();
+
+    for (const fragment of sorted) {
+      const previousId = this.fragmentPlaneIds.get(fragment.id);
+
+      let group = groups.find(g => g.id === previousId && this.canJoinGroup(g.fragments, fragment)) ??
+        groups.find(g => this.canJoinGroup(g.fragments, fragment));
+
+      if (!group) {
+        let id = previousId ?? fragment.id;
+        if (groups.some(g => g.id === id)) {
+          id = `plane_${this.nextPlaneId++}`;
+        }
+        group = { id, fragments: [] };
+        groups.push(group);
+      } else if (previousId && previousId !== group.id) {
+        absorbedInto.set(previousId, group.id);
+      }
+
+      group.fragments.push(fragment);
+      this.fragmentPlaneIds.set(fragment.id, group.id);
+    }
+
+    this.foldConnectedGroups(groups, absorbedInto);
+
+    for (const group of groups) {
+      this.storePlane(this.buildLogicalPlane(group.id, group.fragments));
+    }
+
+    // Report planes that no longer own any fragment as merged
+    const mergedBySurvivor: Map<string, string[]> = new Map();
+    for (const [absorbedId, survivorId] of absorbedInto.entries()) {
+      if (groups.some(g => g.id === absorbedId) || !this.planes.has(absorbedId)) continue;
+      mergedBySurvivor.set(survivorId, [...(mergedBySurvivor.get(survivorId) ?? []), absorbedId]);
+    }
+    for (const [survivorId, absorbedIds] of mergedBySurvivor.entries()) {
+      this.absorbPlanes(survivorId, absorbedIds);
+    }
+  }
+
+  /**
+   * Fold together groups bridged by fragments that were grouped later
+   *
+   * Planes that already existed win over new ones so IDs stay stable.
+   */
+  private foldConnectedGroups(
+    groups: { id: string; fragments: PlaneData[] }[],
+    absorbedInto: Map<string, string>
+  ): void {
+    for (let i = 0; i < groups.length; i++) {
+      for (let j = i + 1; j < groups.length; j++) {
+        if (!groups[j].fragments.some(fragment => this.canJoinGroup(groups[i].fragments, fragment))) continue;
+
+        const keepFirst = this.planes.has(groups[i].id) || !this.planes.has(groups[j].id);
+        const keep = keepFirst ? groups[i] : groups[j];
+        const drop = keepFirst ? groups[j] : groups[i];
+
+        keep.fragments = [...keep.fragments, ...drop.fragments].sort(
+          (a, b) => getPolygonArea(b.polygon) - getPolygonArea(a.polygon)
+        );
+        drop.fragments.forEach(fragment => this.fragmentPlaneIds.set(fragment.id, keep.id));
+
+        absorbedInto.set(drop.id, keep.id);
+        for (const [absorbedId, survivorId] of absorbedInto.entries()) {
+          if (survivorId === drop.id) absorbedInto.set(absorbedId, keep.id);
+        }
+
+        groups[i] = keep;
+        groups.splice(j, 1);
+        // Restart the scan for the grown group
+        j = i;
+      }
+    }
+  }
+
+  /**
+   * Check whether a fragment belongs to the same wall as a group of fragments
+   */
+  private canJoinGroup(groupFragments: PlaneData[], fragment: PlaneData): boolean {
+    const representative = groupFragments[0];
+    if (representative.orientation !== fragment.orientation) return false;
+    if (!arePlanesCoplanar(representative, fragment)) return false;
+
+    return groupFragments.some(member => arePolygonsAdjacent(member, fragment, FRAGMENT_MAX_GAP));
+  }
+
+  /**
+   * Combine fragments into one plane, posed like the largest fragment
+   */
+  private buildLogicalPlane(id: string, fragments: PlaneData[]): PlaneData {
+    const representative = fragments[0];
+
+    let polygon = representative.polygon;
+    if (fragments.length > 1) {
+      // Union approximated by the convex hull in the representative's plane space
+      const toRepresentative = getPlaneMatrix(representative).invert();
+      polygon = computeConvexHull(
+        fragments.flatMap(fragment =>
+          getWorldPolygon(fragment).map(point => point.applyMatrix4(toRepresentative))
+        )
       );
-      
-      const orientation = new Quaternion().setFromRotationMatrix(
-        new Matrix4().fromArray(planePose.transform.matrix)
+    }
+
+    return {
+      ...representative,
+      id,
+      polygon,
+      isStable: fragments.every(fragment => fragment.isStable)
+    };
+  }
+
+  /**
+   * Store a logical plane, announcing it as detected or updated
+   */
+  private storePlane(planeData: PlaneData): void {
+    const planeId = planeData.id;
+    const existingPlane = this.planes.get(planeId);
+    if (!existingPlane) {
+      if (!this.makeRoomForPlane(planeData)) {
+        // Not tracked, so its fragments' filters would never be cleaned up
+        this.forgetFragments(planeId);
+        return;
+      }
+      this.planes.set(planeId, planeData);
+      this.announcedPlanes.set(planeId, planeData);
+      this.onPlaneDetectedCallback?.(planeData);
+    } else {
+      this.planes.set(planeId, planeData);
+      this.announcePlaneUpdate(planeData);
+    }
+  }
+
+  /**
+   * Drop planes whose fragments now belong to a surviving plane
+   */
+  private absorbPlanes(survivorId: string, absorbedIds: string[]): void {
+    const survivor = this.planes.get(survivorId);
+    if (!survivor) return;
+
+    for (const id of absorbedIds) {
+      this.planes.delete(id);
+      this.announcedPlanes.delete(id);
+    }
+
+    this.onPlanesMergedCallback?.(survivor, absorbedIds);
+  }
+
+  /**
+   * Enforce maxPlanes before admitting a new plane
+   *
+   * Stale planes are evicted first (oldest first); otherwise the smallest plane
+   * makes way, but only for a larger newcomer.
+   */
+  private makeRoomForPlane(candidate: PlaneData): boolean {
+    if (this.planes.size < this.config.maxPlanes) return true;
+
+    const now = performance.now();
+    const planes = Array.from(this.planes.values());
+
+    let victim = planes
+      .filter(plane => now - plane.lastUpdate > PLANE_STALE_TIME)
+      .sort((a, b) => a.lastUpdate - b.lastUpdate)[0];
+
+    if (!victim) {
+      const smallest = planes.reduce((min, plane) =>
+        getPolygonArea(plane.polygon) < getPolygonArea(min.polygon) ? plane : min
       );
+      if (getPolygonArea(smallest.polygon) < getPolygonArea(candidate.polygon)) {
+        victim = smallest;
+      }
+    }
 
-      // Apply pose filtering
-      const filtered = this.poseFilter.filter(position, orientation);
-
-      // Determine plane orientation (vertical for walls)
-      const normal = new Vector3(0, 0, 1).applyQuaternion(filtered.rotation);
-      const isVertical = Math.abs(normal.y) < 0.5; // Wall planes are mostly vertical
-
-      // Create or update plane data
-      const planeData: PlaneData = {
-        id: planeId,
-        pose: {
-          position: filtered.position,
-          orientation: filtered.rotation
-        },
-        polygon: this.extractPlanePolygon(xrPlane),
-        orientation: isVertical ? 'vertical' : 'horizontal',
-        lastUpdate: performance.now()
-      };
+    if (!victim) return false;
 
-      // Store plane
-      const existingPlane = this.planes.get(planeId);
-      if (!existingPlane) {
-        this.planes.set(planeId, planeData);
-        this.onPlaneDetectedCallback?.(planeData);
-      } else {
-        this.planes.set(planeId, planeData);
+    this.removePlane(victim.id, false);
+    return true;
+  }
+
+  /**
+   * Announce a plane update when its pose, boundary or stability changed noticeably
+   */
+  private announcePlaneUpdate(plane: PlaneData): void {
+    const announced = this.announcedPlanes.get(plane.id);
+    const changed = !announced ||
+      announced.isStable !== plane.isStable ||
+      announced.orientation !== plane.orientation ||
+      announced.pose.position.distanceTo(plane.pose.position) > UPDATE_POSITION_THRESHOLD ||
+      announced.pose.orientation.angleTo(plane.pose.orientation) > UPDATE_ANGLE_THRESHOLD ||
+      this.hasPolygonChanged(announced.polygon, plane.polygon);
+
+    if (changed) {
+      this.announcedPlanes.set(plane.id, plane);
+      this.onPlaneUpdatedCallback?.(plane);
+    }
+  }
+
+  /**
+   * Check whether a polygon's vertices moved beyond the update threshold
+   */
+  private hasPolygonChanged(previous: Vector3[], current: Vector3[]): boolean {
+    if (previous.length !== current.length) return true;
+    return current.some((point, i) => point.distanceTo(previous[i]) > UPDATE_POSITION_THRESHOLD);
+  }
+
+  /**
+   * Remove a plane and report it as merged into a covering plane, or as removed
+   *
+   * @param detectMerge - Whether a surviving coplanar plane may have absorbed it
+   */
+  private removePlane(id: string, detectMerge = true): void {
+    const plane = this.planes.get(id);
+    if (!plane) return;
+
+    this.planes.delete(id);
+    this.announcedPlanes.delete(id);
+    this.forgetFragments(id);
+
+    const survivor = detectMerge ? this.findCoveringPlane(plane) : null;
+    if (survivor) {
+      this.onPlanesMergedCallback?.(survivor, [id]);
+    } else {
+      this.onPlaneRemovedCallback?.(plane);
+    }
+  }
+
+  /**
+   * Drop the fragment mappings and pose filters of a removed plane
+   */
+  private forgetFragments(planeId: string): void {
+    for (const [fragmentId, ownerId] of Array.from(this.fragmentPlaneIds.entries())) {
+      if (ownerId === planeId) {
+        this.fragmentPlaneIds.delete(fragmentId);
+        this.poseFilters.delete(fragmentId);
       }
-    });
+    }
+  }
 
-    // Clean up old planes
-    this.cleanupOldPlanes();
-    } catch (error) {
-      console.warn('Error in plane detection:', error);
+  /**
+   * Find a remaining plane on the same surface that covers a removed plane
+   */
+  private findCoveringPlane(removed: PlaneData): PlaneData | null {
+    for (const plane of this.planes.values()) {
+      if (arePlanesCoplanar(plane, removed) && isPointOnPlane(plane, removed.pose.position)) {
+        return plane;
+      }
     }
+    return null;
   }
 
   /**
    * Extract polygon points from XR plane
+   *
+   * The spec exposes DOMPointReadOnly vertices; some early implementations
+   * used a flat [x0, z0, x1, z1, ...] array. Planes without a boundary get an
+   * empty polygon rather than a guessed one.
    */
-  private extractPlanePolygon(xrPlane: any): Vector3[] {
+  private extractPlanePolygon(xrPlane: XRPlane): Vector3[] {
     const polygon: Vector3[] = [];
+    const points = xrPlane.polygon as ArrayLike<DOMPointReadOnly | number> | undefined;
     
-    if (xrPlane.polygon) {
-      for (let i = 0; i < xrPlane.polygon.length; i += 2) {
-        polygon.push(new Vector3(
-          xrPlane.polygon[i],
-          0,
-          xrPlane.polygon[i + 1]
-        ));
+    if (!points || points.length === 0) {
+      return polygon;
+    }
+
+    if (typeof points[0] === 'number') {
+      const values = points as ArrayLike<number>;
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        polygon.push(new Vector3(values[i], 0, values[i + 1]));
       }
     } else {
-      // Fallback: create a default rectangle
-      const size = 2; // 2m x 2m default
-      polygon.push(
-        new Vector3(-size/2, 0, -size/2),
-        new Vector3(size/2, 0, -size/2),
-        new Vector3(size/2, 0, size/2),
-        new Vector3(-size/2, 0, size/2)
-      );
+      for (const point of Array.from(points as ArrayLike<DOMPointReadOnly>)) {
+        polygon.push(new Vector3(point.x, 0, point.z));
+      }
     }
 
     return polygon;
@@ -251,33 +592,30 @@ export class PlaneTracker {
     const hitTestResults = frame.getHitTestResults(this.hitTestSource);
     
     if (hitTestResults.length > 0) {
+      this.latestHit = this.getHitPose(hitTestResults[0]);
       this.updateTrackingState(TrackingState.TRACKING);
     } else {
+      this.latestHit = null;
       this.updateTrackingState(TrackingState.LIMITED);
     }
   }
 
   /**
-   * Perform hit test at screen coordinates
+   * Perform hit test at normalized device coordinates (-1..1, +y up)
    */
-  async hitTest(_x: number, _y: number, frame: XRFrame): Promise<Vector3 | null> {
-    if (!this.xrSession || !this.xrRefSpace || !this.hitTestSource) {
+  async hitTest(x: number, y: number, frame: XRFrame): Promise<HitPose | null> {
+    if (!this.xrSession || !this.xrRefSpace) {
       return null;
     }
 
     try {
-      const hitTestResults = frame.getHitTestResults(this.hitTestSource);
-      
-      if (hitTestResults.length > 0) {
-        const hit = hitTestResults[0];
-        const hitPose = hit.getPose(this.xrRefSpace);
-        
-        if (hitPose) {
-          return new Vector3().setFromMatrixPosition(
-            new Matrix4().fromArray(hitPose.transform.matrix)
-          );
-        }
+      const ray = this.createScreenRay(x, y, frame);
+      if (ray) {
+        return await this.hitTestAlongRay(ray);
       }
+
+      // No ray support - use the touch currently on screen, if any
+      return this.getTransientHitPose(frame);
     } catch (error) {
       console.warn('Hit test failed:', error);
     }
@@ -285,6 +623,140 @@ export class PlaneTracker {
     return null;
   }
 
+  /**
+   * Build a viewer-space ray through the given normalized screen point
+   */
+  private createScreenRay(x: number, y: number, frame: XRFrame): XRRay | null {
+    if (!this.viewerSpace || typeof XRRay === 'undefined') return null;
+
+    const viewerPose = frame.getViewerPose(this.viewerSpace);
+    const view = viewerPose?.views[0];
+    if (!view) return null;
+
+    // Unproject the tap into view space, then express it relative to the viewer
+    const inverseProjection = new Matrix4().fromArray(view.projectionMatrix).invert();
+    const viewMatrix = new Matrix4().fromArray(view.transform.matrix);
+    const origin = new Vector3().setFromMatrixPosition(viewMatrix);
+    const direction = new Vector3(x, y, 0.5)
+      .applyMatrix4(inverseProjection)
+      .normalize()
+      .applyQuaternion(new Quaternion().setFromRotationMatrix(viewMatrix));
+
+    return new XRRay(
+      { x: origin.x, y: origin.y, z: origin.z, w: 1 },
+      { x: direction.x, y: direction.y, z: direction.z, w: 0 }
+    );
+  }
+
+  /**
+   * Run a one-shot hit test along a viewer-space ray
+   *
+   * Results for a new hit test source are only available from the next frame,
+   * so the source is kept alive for exactly one frame and then cancelled.
+   * Resolves null if the session ends before that frame.
+   */
+  private async hitTestAlongRay(ray: XRRay): Promise<HitPose | null> {
+    const session = this.xrSession;
+    if (!session?.requestHitTestSource || !this.viewerSpace) return null;
+
+    const source = await session.requestHitTestSource({
+      space: this.viewerSpace,
+      offsetRay: ray
+    });
+    if (!source) return null;
+
+    try {
+      return await this.withNextFrame((frame) => {
+        const results = frame.getHitTestResults(source);
+        return results.length > 0 ? this.getHitPose(results[0], true) : null;
+      });
+    } finally {
+      try {
+        source.cancel();
+      } catch {
+        // Already cancelled with its session
+      }
+    }
+  }
+
+  /**
+   * Get hit pose from the active screen touch
+   */
+  private getTransientHitPose(frame: XRFrame): HitPose | null {
+    if (!this.transientHitTestSource) return null;
+
+    const transientResults = frame.getHitTestResultsForTransientInput(this.transientHitTestSource);
+    for (const transientResult of transientResults) {
+      if (transientResult.results.length > 0) {
+        return this.getHitPose(transientResult.results[0], true);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Convert a hit test result to a full pose in the local reference space
+   *
+   * The hit pose's Y axis is the surface normal. When the hit lands on a known
+   * plane, the plane's filtered normal is preferred as it jitters less.
+   * Anchors can only be created while the hit's frame is active, so callers
+   * that may place an object ask for one up front.
+   */
+  private getHitPose(hit: XRHitTestResult, createAnchor = false): HitPose | null {
+    const hitPose = this.xrRefSpace ? hit.getPose(this.xrRefSpace) : undefined;
+    if (!hitPose) return null;
+
+    const matrix = new Matrix4().fromArray(hitPose.transform.matrix);
+    const position = new Vector3().setFromMatrixPosition(matrix);
+    const orientation = new Quaternion().setFromRotationMatrix(matrix);
+    const normal = new Vector3(0, 1, 0).applyQuaternion(orientation);
+
+    const plane = this.findPlaneAt(position, normal);
+    if (plane) {
+      const planeNormal = getPlaneNormal(plane);
+      // Plane normals may point either way; keep the side the hit came from
+      if (planeNormal.dot(normal) < 0) {
+        planeNormal.negate();
+      }
+      normal.copy(planeNormal);
+    }
+
+    return {
+      position,
+      orientation,
+      normal,
+      planeId: plane?.id,
+      anchor: createAnchor && hit.createAnchor ? hit.createAnchor() : undefined
+    };
+  }
+
+  /**
+   * Find the detected plane that contains a surface point
+   */
+  private findPlaneAt(position: Vector3, normal: Vector3): PlaneData | null {
+    const maxDistance = 0.05; // meters off the plane surface
+    const minAlignment = 0.9; // cosine between normals (~25 degrees)
+
+    let bestPlane: PlaneData | null = null;
+    let bestDistance = maxDistance;
+
+    for (const plane of this.planes.values()) {
+      const planeNormal = getPlaneNormal(plane);
+      if (Math.abs(planeNormal.dot(normal)) < minAlignment) continue;
+
+      const distance = Math.abs(
+        planeNormal.dot(position.clone().sub(plane.pose.position))
+      );
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestPlane = plane;
+      }
+    }
+
+    return bestPlane;
+  }
+
   /**
    * Update tracking stability and state
    */
@@ -309,9 +781,9 @@ export class PlaneTracker {
     const now = performance.now();
     const timeout = 10000; // 10 seconds
 
-    for (const [id, plane] of this.planes.entries()) {
+    for (const [id, plane] of Array.from(this.planes.entries())) {
       if (now - plane.lastUpdate > timeout) {
-        this.planes.delete(id);
+        this.removePlane(id);
       }
     }
   }
@@ -332,9 +804,20 @@ export class PlaneTracker {
   private onSessionEnd(): void {
     this.xrSession = undefined;
     this.xrRefSpace = undefined;
+    this.viewerSpace = undefined;
     this.hitTestSource = undefined;
-    this.planes.clear();
+    this.transientHitTestSource = undefined;
+    this.latestHit = null;
+    this.fragmentPlaneIds.clear();
+    this.poseFilters.clear();
+
+    // Planes don't outlive the session - let listeners release them
+    for (const id of Array.from(this.planes.keys())) {
+      this.removePlane(id, false);
+    }
+
     this.updateTrackingState(TrackingState.NOT_TRACKING);
+    this.onSessionEndedCallback?.();
   }
 
   /**
@@ -352,6 +835,13 @@ export class PlaneTracker {
     return Array.from(this.planes.values());
   }
 
+  /**
+   * Get the latest screen-center hit result, if any
+   */
+  getLatestHit(): HitPose | null {
+    return this.latestHit;
+  }
+
   /**
    * Get tracking state
    */
@@ -366,6 +856,34 @@ export class PlaneTracker {
     this.onPlaneDetectedCallback = callback;
   }
 
+  /**
+   * Set callback for plane pose, boundary or stability changes
+   */
+  onPlaneUpdated(callback: (plane: PlaneData) => void): void {
+    this.onPlaneUpdatedCallback = callback;
+  }
+
+  /**
+   * Set callback for planes that are no longer tracked
+   */
+  onPlaneRemoved(callback: (plane: PlaneData) => void): void {
+    this.onPlaneRemovedCallback = callback;
+  }
+
+  /**
+   * Set callback for planes absorbed into another plane
+   */
+  onPlanesMerged(callback: (plane: PlaneData, mergedPlaneIds: string[]) => void): void {
+    this.onPlanesMergedCallback = callback;
+  }
+
+  /**
+   * Set callback for the XR session ending, however it was ended
+   */
+  onSessionEnded(callback: () => void): void {
+    this.onSessionEndedCallback = callback;
+  }
+
   /**
    * Set callback for tracking state changes
    */
@@ -382,6 +900,50 @@ export class PlaneTracker {
     }
   }
 
+  /**
+   * Run a callback in the session's next frame, while the frame is active
+   *
+   * Resolves with the callback's result, or null if there is no session or
+   * it ends before the frame.
+   */
+  withNextFrame<T>(use: (frame: XRFrame) => T | Promise<T>): Promise<T | null> {
+    const session = this.xrSession;
+    if (!session) return Promise.resolve(null);
+
+    return new Promise((resolve, reject) => {
+      const onEnd = () => resolve(null);
+      session.addEventListener('end', onEnd, { once: true });
+      session.requestAnimationFrame((_time, frame) => {
+        session.removeEventListener('end', onEnd);
+        try {
+          Promise.resolve(use(frame)).then(resolve, reject);
+        } catch (error) {
+          reject(error);
+        }
+      });
+    });
+  }
+
+  /**
+   * Create an XR anchor at a world pose in the next frame
+   *
+   * Resolves null without a session or anchor support.
+   */
+  async createAnchor(pose: Matrix4): Promise<XRAnchor | null> {
+    const refSpace = this.xrRefSpace;
+    if (!refSpace || typeof XRRigidTransform === 'undefined') return null;
+
+    const position = new Vector3();
+    const orientation = new Quaternion();
+    pose.decompose(position, orientation, new Vector3());
+    const transform = new XRRigidTransform(
+      { x: position.x, y: position.y, z: position.z },
+      { x: orientation.x, y: orientation.y, z: orientation.z, w: orientation.w }
+    );
+
+    return await this.withNextFrame(frame => frame.createAnchor?.(transform, refSpace) ?? null);
+  }
+
   /**
    * Get XR session
    */
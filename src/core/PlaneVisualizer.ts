@@ -0,0 +1,220 @@
+/**
+ * PlaneVisualizer - Translucent overlay for detected planes and the placement reticle
+ */
+
+import {
+  Scene,
+  Group,
+  Mesh,
+  LineLoop,
+  Shape,
+  ShapeGeometry,
+  RingGeometry,
+  CircleGeometry,
+  BufferGeometry,
+  MeshBasicMaterial,
+  LineBasicMaterial,
+  Vector2,
+  DoubleSide
+} from 'three';
+
+import { HitPose, PlaneData } from '../types';
+
+const PLANE_STYLES = {
+  vertical: { color: 0x4fc3f7, fillOpacity: 0.22, edgeOpacity: 0.8 },
+  horizontal: { color: 0xffb74d, fillOpacity: 0.12, edgeOpacity: 0.5 }
+};
+
+// Planes start fading after this long without an update, and vanish after the fade
+const FADE_DELAY = 1000; // ms
+const FADE_DURATION = 2000; // ms
+
+interface PlaneVisual {
+  group: Group;
+  fill: Mesh<ShapeGeometry, MeshBasicMaterial>;
+  edge: LineLoop<BufferGeometry, LineBasicMaterial>;
+  polygonKey: string;
+}
+
+export class PlaneVisualizer {
+  private scene: Scene;
+  private visuals: Map<string, PlaneVisual> = new Map();
+  private reticle: Group;
+
+  constructor(scene: Scene) {
+    this.scene = scene;
+    this.reticle = this.createReticle();
+    this.scene.add(this.reticle);
+  }
+
+  /**
+   * Sync plane meshes with the current plane set
+   */
+  updatePlanes(planes: PlaneData[]): void {
+    const now = performance.now();
+    const seen = new Set<string>();
+
+    for (const plane of planes) {
+      if (plane.polygon.length < 3) continue;
+      seen.add(plane.id);
+
+      let visual = this.visuals.get(plane.id);
+      if (!visual) {
+        visual = this.createPlaneVisual(plane);
+        this.visuals.set(plane.id, visual);
+        this.scene.add(visual.group);
+      }
+
+      // Rebuild outline only when the platform reports a new boundary
+      const polygonKey = this.getPolygonKey(plane);
+      if (polygonKey !== visual.polygonKey) {
+        this.setPolygon(visual, plane);
+        visual.polygonKey = polygonKey;
+      }
+
+      visual.group.position.copy(plane.pose.position);
+      visual.group.quaternion.copy(plane.pose.orientation);
+
+      const style = PLANE_STYLES[plane.orientation];
+      visual.fill.material.color.setHex(style.color);
+      visual.edge.material.color.setHex(style.color);
+
+      const fade = this.getFade(now - plane.lastUpdate);
+      visual.fill.material.opacity = style.fillOpacity * fade;
+      visual.edge.material.opacity = style.edgeOpacity * fade;
+      visual.group.visible = fade > 0;
+    }
+
+    for (const id of Array.from(this.visuals.keys())) {
+      if (!seen.has(id)) {
+        this.removePlaneVisual(id);
+      }
+    }
+  }
+
+  /**
+   * Move the reticle to the live hit-test result, or hide it
+   */
+  updateReticle(hit: HitPose | null): void {
+    if (!hit) {
+      this.reticle.visible = false;
+      return;
+    }
+
+    this.reticle.visible = true;
+    this.reticle.position.copy(hit.position);
+    this.reticle.quaternion.copy(hit.orientation);
+  }
+
+  /**
+   * Remove all plane meshes and hide the reticle
+   */
+  clear(): void {
+    this.updatePlanes([]);
+    this.updateReticle(null);
+  }
+
+  /**
+   * Dispose all meshes
+   */
+  dispose(): void {
+    this.clear();
+
+    this.scene.remove(this.reticle);
+    this.reticle.traverse((child) => {
+      if (child instanceof Mesh) {
+        child.geometry.dispose();
+        child.material.dispose();
+      }
+    });
+  }
+
+  /**
+   * Create the fill and outline meshes for a plane
+   */
+  private createPlaneVisual(plane: PlaneData): PlaneVisual {
+    const group = new Group();
+
+    const fill = new Mesh(
+      new ShapeGeometry(new Shape()),
+      new MeshBasicMaterial({ transparent: true, depthWrite: false, side: DoubleSide })
+    );
+    const edge = new LineLoop(
+      new BufferGeometry(),
+      new LineBasicMaterial({ transparent: true, depthWrite: false })
+    );
+
+    // Draw overlays first so placed objects always render over them
+    fill.renderOrder = -1;
+    edge.renderOrder = -1;
+
+    group.add(fill, edge);
+
+    const visual = { group, fill, edge, polygonKey: '' };
+    this.setPolygon(visual, plane);
+    visual.polygonKey = this.getPolygonKey(plane);
+    return visual;
+  }
+
+  /**
+   * Rebuild geometry from the plane-space polygon (points lie in the XZ plane)
+   */
+  private setPolygon(visual: PlaneVisual, plane: PlaneData): void {
+    // Shapes are built in XY; rotating -90° about X maps (x, -z) back onto (x, 0, z)
+    const shape = new Shape(plane.polygon.map(point => new Vector2(point.x, -point.z)));
+    const fillGeometry = new ShapeGeometry(shape);
+    fillGeometry.rotateX(-Math.PI / 2);
+
+    const edgeGeometry = new BufferGeometry().setFromPoints(plane.polygon);
+
+    visual.fill.geometry.dispose();
+    visual.fill.geometry = fillGeometry;
+    visual.edge.geometry.dispose();
+    visual.edge.geometry = edgeGeometry;
+  }
+
+  /**
+   * Cheap signature of a polygon to detect boundary changes
+   */
+  private getPolygonKey(plane: PlaneData): string {
+    return plane.polygon.map(p => `${p.x.toFixed(3)},${p.z.toFixed(3)}`).join(';');
+  }
+
+  /**
+   * Opacity multiplier for a plane that was last updated `age` ms ago
+   */
+  private getFade(age: number): number {
+    if (age <= FADE_DELAY) return 1;
+    return Math.max(0, 1 - (age - FADE_DELAY) / FADE_DURATION);
+  }
+
+  /**
+   * Remove and dispose a plane's meshes
+   */
+  private removePlaneVisual(id: string): void {
+    const visual = this.visuals.get(id);
+    if (!visual) return;
+
+    this.scene.remove(visual.group);
+    visual.fill.geometry.dispose();
+    visual.fill.material.dispose();
+    visual.edge.geometry.dispose();
+    visual.edge.material.dispose();
+    this.visuals.delete(id);
+  }
+
+  /**
+   * Ring with a center dot, lying in the hit pose's XZ plane
+   */
+  private createReticle(): Group {
+    const reticle = new Group();
+    const material = new MeshBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.9, depthTest: false });
+
+    const ring = new Mesh(new RingGeometry(0.06, 0.075, 32).rotateX(-Math.PI / 2), material);
+    const dot = new Mesh(new CircleGeometry(0.01, 16).rotateX(-Math.PI / 2), material.clone());
+
+    reticle.add(ring, dot);
+    reticle.visible = false;
+    return reticle;
+  }
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { Vector3, Quaternion } from 'three';
+import { PoseFilter } from './PoseFilter';
+import { PoseFilterOptions } from '../types';
+
+const identity = new Quaternion();
+
+/**
+ * Feed positions from `position(t)` every `stepMs` up to `durationMs`, returning the last output
+ */
+function run(
+  filter: PoseFilter,
+  position: (t: number) => Vector3,
+  stepMs: number,
+  durationMs: number
+): ReturnType<PoseFilter['filter']> {
+  let result = filter.filter(position(0), identity, 0);
+  for (let t = stepMs; t <= durationMs + 1e-9; t += stepMs) {
+    result = filter.filter(position(t), identity, t);
+  }
+  return result;
+}
+
+const step = (t: number) => new Vector3(t > 0 ? 0.1 : 0, 0, 0);
+
+describe('PoseFilter', () => {
+  it('smooths the same amount at 30 and 90 fps', () => {
+    const at30 = run(new PoseFilter(), step, 1000 / 30, 200);
+    const at90 = run(new PoseFilter(), step, 1000 / 90, 200);
+
+    expect(at30.position.x).toBeGreaterThan(0);
+    expect(at30.position.x).toBeLessThan(0.1);
+    expect(at90.position.x).toBeCloseTo(at30.position.x, 3);
+  });
+
+  it('times stabilization from an injected clock starting at zero', () => {
+    let now = 0;
+    const filter = new PoseFilter({ clock: () => now, stabilizationTime: 1000 });
+    const still = new Vector3(1, 1, 1);
+
+    let result = filter.filter(still, identity);
+    for (now = 100; now <= 900; now += 100) {
+      result = filter.filter(still, identity);
+    }
+    expect(result.isStable).toBe(false);
+
+    now = 1000;
+    expect(filter.filter(still, identity).isStable).toBe(true);
+  });
+
+  it('rejects a single jump but follows a persistent one', () => {
+    const filter = new PoseFilter({ outlierDistance: 0.5 });
+    const origin = new Vector3();
+    const far = new Vector3(2, 0, 0);
+
+    filter.filter(origin, identity, 0);
+    expect(filter.filter(far, identity, 16).position.x).toBe(0);
+    filter.filter(origin, identity, 32);
+
+    const outputs = [48, 64, 80, 96, 112].map(t => filter.filter(far, identity, t).position.x);
+    expect(outputs.slice(0, 4).every(x => x === 0)).toBe(true);
+    expect(outputs[4]).toBe(2);
+  });
+
+  it('predicts ahead from an injected clock', () => {
+    let now = 0;
+    const filter = new PoseFilter({ strategy: 'kalman', clock: () => now });
+    for (; now <= 2000; now += 16) {
+      filter.filter(new Vector3(now / 1000, 0, 0), identity);
+    }
+    now -= 16;
+
+    expect(filter.predict(now + 100)!.x).toBeCloseTo(now / 1000 + 0.1, 2);
+  });
+});
+
+describe('One Euro strategy', () => {
+  const options: Partial<PoseFilterOptions> = {
+    strategy: 'oneEuro',
+    oneEuro: { minCutoff: 1.0, beta: 0.5, derivativeCutoff: 1.0 }
+  };
+
+  it('damps jitter while still', () => {
+    const jitter = (t: number) => new Vector3(Math.round(t / 16) % 2 === 0 ? 0.004 : -0.004, 0, 0);
+    const result = run(new PoseFilter(options), jitter, 16, 1000);
+
+    expect(Math.abs(result.position.x)).toBeLessThan(0.001);
+  });
+
+  it('lags less behind fast movement as beta rises', () => {
+    const moving = (t: number) => new Vector3(t / 1000, 0, 0);
+    const slow = run(new PoseFilter({ ...options, oneEuro: { minCutoff: 1.0, beta: 0, derivativeCutoff: 1.0 } }), moving, 16, 1008);
+    const fast = run(new PoseFilter({ ...options, oneEuro: { minCutoff: 1.0, beta: 20, derivativeCutoff: 1.0 } }), moving, 16, 1008);
+
+    const slowLag = 1.008 - slow.position.x;
+    const fastLag = 1.008 - fast.position.x;
+    expect(fastLag).toBeGreaterThan(0);
+    expect(fastLag).toBeLessThan(slowLag / 2);
+  });
+
+  it('gives the same result for the same samples', () => {
+    const moving = (t: number) => new Vector3(Math.sin(t / 200), 0, 0);
+    const a = run(new PoseFilter(options), moving, 16, 1000);
+    const b = run(new PoseFilter(options), moving, 16, 1000);
+
+    expect(a.position.equals(b.position)).toBe(true);
+  });
+});
+
+describe('Kalman strategy', () => {
+  const options: Partial<PoseFilterOptions> = { strategy: 'kalman' };
+
+  it('tracks constant velocity without lag', () => {
+    const moving = (t: number) => new Vector3(0, t / 2000, 0);
+    const result = run(new PoseFilter(options), moving, 16, 2000);
+
+    expect(result.position.y).toBeCloseTo(1, 2);
+  });
+
+  it('averages out measurement noise', () => {
+    const noisy = (t: number) => new Vector3(0, 0, 1 + (Math.round(t / 16) % 2 === 0 ? 0.005 : -0.005));
+    const result = run(new PoseFilter(options), noisy, 16, 2000);
+
+    expect(Math.abs(result.position.z - 1)).toBeLessThan(0.0025);
+  });
+
+  it('smooths rotation over time rather than per sample', () => {
+    const turned = new Quaternion().setFromAxisAngle(new Vector3(0, 1, 0), 0.2);
+    const angleAfter = (stepMs: number) => {
+      const filter = new PoseFilter(options);
+      filter.filter(new Vector3(), identity, 0);
+      let rotation = identity;
+      for (let t = stepMs; t <= 100 + 1e-9; t += stepMs) {
+        rotation = filter.filter(new Vector3(), turned, t).rotation;
+      }
+      return rotation.angleTo(identity);
+    };
+
+    expect(angleAfter(1000 / 90)).toBeCloseTo(angleAfter(1000 / 30), 3);
+  });
+});
@@ -4,36 +4,55 @@
 
 import { Vector3, Quaternion } from 'three';
 import { PoseFilterOptions } from '../types';
+import { FilterStrategy, createFilterStrategy } from './PoseFilterStrategies';
+
+/** Consecutive outliers after which a jump is accepted as a real correction */
+const MAX_CONSECUTIVE_OUTLIERS = 5;
 
 export class PoseFilter {
   private options: PoseFilterOptions;
+  private strategy: FilterStrategy;
+  private clock: () => number;
+  private lastTimestamp?: number;
   private lastPosition?: Vector3;
   private lastRotation?: Quaternion;
   private velocityHistory: Vector3[] = [];
   private stabilizationStartTime?: number;
+  private consecutiveOutliers = 0;
   private isStable = false;
 
   constructor(options: Partial<PoseFilterOptions> = {}) {
     this.options = {
-      positionSmoothingFactor: 0.8,
-      rotationSmoothingFactor: 0.9,
+      strategy: 'exponential',
+      positionSmoothingFactor: 0.8, // per-frame retention at 60 fps
+      rotationSmoothingFactor: 0.9, // per-frame retention at 60 fps
       maxJitterThreshold: 0.01, // meters
       stabilizationTime: 1000, // ms
+      outlierDistance: 0.5, // meters
+      oneEuro: { minCutoff: 1.0, beta: 0.5, derivativeCutoff: 1.0 },
+      kalman: { processNoise: 0.05, measurementNoise: 0.0004 },
       ...options
     };
+    this.strategy = createFilterStrategy(this.options);
+    this.clock = this.options.clock ?? (() => performance.now());
   }
 
   /**
    * Apply smoothing filter to position and rotation
+   *
+   * @param timestamp - Sample time in ms; defaults to the configured clock
    */
-  filter(position: Vector3, rotation: Quaternion): { position: Vector3; rotation: Quaternion; isStable: boolean } {
-    const now = performance.now();
-    
+  filter(
+    position: Vector3,
+    rotation: Quaternion,
+    timestamp: number = this.clock()
+  ): { position: Vector3; rotation: Quaternion; isStable: boolean } {
     // Initialize on first call
-    if (!this.lastPosition || !this.lastRotation) {
-      this.lastPosition = position.clone();
-      this.lastRotation = rotation.clone();
-      this.stabilizationStartTime = now;
+    if (!this.lastPosition || !this.lastRotation || this.lastTimestamp === undefined) {
+      this.lastTimestamp = timestamp;
+      this.lastPosition = this.strategy.filterPosition(position, 0);
+      this.lastRotation = this.strategy.filterRotation(rotation, 0);
+      this.stabilizationStartTime = timestamp;
       return {
         position: position.clone(),
         rotation: rotation.clone(),
@@ -41,16 +60,30 @@ export class PoseFilter {
       };
     }
 
+    // Guard against duplicate or out-of-order timestamps
+    const deltaMs = Math.max(timestamp - this.lastTimestamp, 1);
+    this.lastTimestamp = timestamp;
+
     // Calculate movement delta
     const positionDelta = position.distanceTo(this.lastPosition);
+
+    // Reject single-frame jumps, but follow persistent ones (e.g. origin corrections)
+    if (this.isOutlier(positionDelta)) {
+      return {
+        position: this.lastPosition.clone(),
+        rotation: this.lastRotation.clone(),
+        isStable: this.isStable
+      };
+    }
+
     this.updateVelocityHistory(positionDelta);
 
-    // Apply exponential smoothing
-    const smoothedPosition = this.smoothPosition(position);
-    const smoothedRotation = this.smoothRotation(rotation);
+    // Apply time-based smoothing
+    const smoothedPosition = this.strategy.filterPosition(position, deltaMs);
+    const smoothedRotation = this.strategy.filterRotation(rotation, deltaMs);
 
     // Update stability state
-    this.updateStabilityState(positionDelta, now);
+    this.updateStabilityState(positionDelta, timestamp);
 
     // Store for next frame
     this.lastPosition = smoothedPosition.clone();
@@ -64,29 +97,32 @@ export class PoseFilter {
   }
 
   /**
-   * Apply exponential smoothing to position
+   * Predict where the filtered position will be at the given time
    */
-  private smoothPosition(newPosition: Vector3): Vector3 {
-    if (!this.lastPosition) return newPosition.clone();
-
-    const factor = this.options.positionSmoothingFactor;
-    return new Vector3(
-      this.lastPosition.x * factor + newPosition.x * (1 - factor),
-      this.lastPosition.y * factor + newPosition.y * (1 - factor),
-      this.lastPosition.z * factor + newPosition.z * (1 - factor)
-    );
+  predict(timestamp: number = this.clock()): Vector3 | null {
+    if (this.lastTimestamp === undefined) return null;
+    return this.strategy.predictPosition(Math.max(timestamp - this.lastTimestamp, 0));
   }
 
   /**
-   * Apply spherical linear interpolation to rotation
+   * Check whether a sample jumped too far, resetting after persistent jumps
    */
-  private smoothRotation(newRotation: Quaternion): Quaternion {
-    if (!this.lastRotation) return newRotation.clone();
+  private isOutlier(positionDelta: number): boolean {
+    if (positionDelta <= this.options.outlierDistance) {
+      this.consecutiveOutliers = 0;
+      return false;
+    }
 
-    const smoothed = new Quaternion();
-    const factor = this.options.rotationSmoothingFactor;
-    
-    return smoothed.slerpQuaternions(newRotation, this.lastRotation, factor);
+    this.consecutiveOutliers++;
+    if (this.consecutiveOutliers < MAX_CONSECUTIVE_OUTLIERS) {
+      return true;
+    }
+
+    // The jump persisted: restart filtering from the new pose
+    this.consecutiveOutliers = 0;
+    this.strategy.reset();
+    this.velocityHistory = [];
+    return false;
   }
 
   /**
@@ -94,7 +130,7 @@ export class PoseFilter {
    */
   private updateVelocityHistory(delta: number): void {
     this.velocityHistory.push(new Vector3(delta, 0, 0));
-    
+
     // Keep only recent history (last 10 frames)
     if (this.velocityHistory.length > 10) {
       this.velocityHistory.shift();
@@ -107,16 +143,16 @@ export class PoseFilter {
   private updateStabilityState(positionDelta: number, currentTime: number): void {
     // Check if movement is below jitter threshold
     const isLowJitter = positionDelta < this.options.maxJitterThreshold;
-    
+
     // Calculate average velocity over recent history
     const avgVelocity = this.velocityHistory.reduce((sum, v) => sum + v.x, 0) / this.velocityHistory.length;
     const isLowVelocity = avgVelocity < this.options.maxJitterThreshold;
 
     if (isLowJitter && isLowVelocity) {
-      if (!this.stabilizationStartTime) {
+      if (this.stabilizationStartTime === undefined) {
         this.stabilizationStartTime = currentTime;
       }
-      
+
       // Check if we've been stable long enough
       const stabilizationDuration = currentTime - this.stabilizationStartTime;
       this.isStable = stabilizationDuration >= this.options.stabilizationTime;
@@ -130,10 +166,13 @@ export class PoseFilter {
    * Reset filter state
    */
   reset(): void {
+    this.strategy.reset();
+    this.lastTimestamp = undefined;
     this.lastPosition = undefined;
     this.lastRotation = undefined;
     this.velocityHistory = [];
     this.stabilizationStartTime = undefined;
+    this.consecutiveOutliers = 0;
     this.isStable = false;
   }
 
@@ -148,6 +187,15 @@ export class PoseFilter {
    * Update filter options
    */
   updateOptions(options: Partial<PoseFilterOptions>): void {
-    this.options = { ...this.options, ...options };
+    const strategyChanged = options.strategy !== undefined && options.strategy !== this.options.strategy;
+
+    // Mutate in place - strategies hold a reference to the options object
+    Object.assign(this.options, options);
+    this.clock = this.options.clock ?? (() => performance.now());
+
+    if (strategyChanged) {
+      this.strategy = createFilterStrategy(this.options);
+      this.reset();
+    }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,255 @@
+/**
+ * PoseFilterStrategies - Frame-rate-independent smoothing strategies used by PoseFilter
+ */
+
+import { Vector3, Quaternion } from 'three';
+import { PoseFilterOptions } from '../types';
+
+/** Frame interval the legacy per-frame smoothing factors were tuned for */
+const REFERENCE_FRAME_MS = 1000 / 60;
+
+export interface FilterStrategy {
+  /**
+   * Filter a position sample taken `deltaMs` after the previous one
+   */
+  filterPosition(position: Vector3, deltaMs: number): Vector3;
+
+  /**
+   * Filter a rotation sample taken `deltaMs` after the previous one
+   */
+  filterRotation(rotation: Quaternion, deltaMs: number): Quaternion;
+
+  /**
+   * Extrapolate the filtered position `aheadMs` into the future
+   */
+  predictPosition(aheadMs: number): Vector3 | null;
+
+  reset(): void;
+}
+
+/**
+ * Convert a per-frame retention factor into one for an arbitrary time step
+ */
+function retentionForDelta(factor: number, deltaMs: number): number {
+  return Math.pow(factor, deltaMs / REFERENCE_FRAME_MS);
+}
+
+/**
+ * Time-based slerp shared by strategies that don't model rotation themselves
+ */
+function smoothRotationOverTime(
+  previous: Quaternion | undefined,
+  rotation: Quaternion,
+  factor: number,
+  deltaMs: number
+): Quaternion {
+  if (!previous) return rotation.clone();
+  return new Quaternion().slerpQuaternions(rotation, previous, retentionForDelta(factor, deltaMs));
+}
+
+/**
+ * Exponential smoothing scaled by the real time between samples
+ */
+export class ExponentialStrategy implements FilterStrategy {
+  private lastPosition?: Vector3;
+  private lastRotation?: Quaternion;
+
+  constructor(private options: PoseFilterOptions) {}
+
+  filterPosition(position: Vector3, deltaMs: number): Vector3 {
+    if (!this.lastPosition) {
+      this.lastPosition = position.clone();
+      return position.clone();
+    }
+
+    const retention = retentionForDelta(this.options.positionSmoothingFactor, deltaMs);
+    this.lastPosition = this.lastPosition.clone().lerp(position, 1 - retention);
+    return this.lastPosition.clone();
+  }
+
+  filterRotation(rotation: Quaternion, deltaMs: number): Quaternion {
+    this.lastRotation = smoothRotationOverTime(
+      this.lastRotation, rotation, this.options.rotationSmoothingFactor, deltaMs
+    );
+    return this.lastRotation.clone();
+  }
+
+  predictPosition(_aheadMs: number): Vector3 | null {
+    return this.lastPosition ? this.lastPosition.clone() : null;
+  }
+
+  reset(): void {
+    this.lastPosition = undefined;
+    this.lastRotation = undefined;
+  }
+}
+
+/**
+ * One Euro filter - low lag while moving, heavy smoothing while still
+ *
+ * @see https://gery.casiez.net/1euro/
+ */
+export class OneEuroStrategy implements FilterStrategy {
+  private lastPosition?: Vector3;
+  private lastVelocity = new Vector3();
+  private lastRotation?: Quaternion;
+  private lastAngularSpeed = 0;
+
+  constructor(private options: PoseFilterOptions) {}
+
+  filterPosition(position: Vector3, deltaMs: number): Vector3 {
+    if (!this.lastPosition) {
+      this.lastPosition = position.clone();
+      return position.clone();
+    }
+
+    const dt = deltaMs / 1000;
+    const { minCutoff, beta, derivativeCutoff } = this.options.oneEuro;
+
+    const velocity = position.clone().sub(this.lastPosition).divideScalar(dt);
+    this.lastVelocity.lerp(velocity, this.alpha(derivativeCutoff, dt));
+
+    const cutoff = minCutoff + beta * this.lastVelocity.length();
+    this.lastPosition = this.lastPosition.clone().lerp(position, this.alpha(cutoff, dt));
+    return this.lastPosition.clone();
+  }
+
+  filterRotation(rotation: Quaternion, deltaMs: number): Quaternion {
+    if (!this.lastRotation) {
+      this.lastRotation = rotation.clone();
+      return rotation.clone();
+    }
+
+    const dt = deltaMs / 1000;
+    const { minCutoff, beta, derivativeCutoff } = this.options.oneEuro;
+
+    const angularSpeed = this.lastRotation.angleTo(rotation) / dt;
+    this.lastAngularSpeed += (angularSpeed - this.lastAngularSpeed) * this.alpha(derivativeCutoff, dt);
+
+    const cutoff = minCutoff + beta * this.lastAngularSpeed;
+    this.lastRotation = this.lastRotation.clone().slerp(rotation, this.alpha(cutoff, dt));
+    return this.lastRotation.clone();
+  }
+
+  predictPosition(aheadMs: number): Vector3 | null {
+    if (!this.lastPosition) return null;
+    return this.lastPosition.clone().addScaledVector(this.lastVelocity, aheadMs / 1000);
+  }
+
+  reset(): void {
+    this.lastPosition = undefined;
+    this.lastVelocity.set(0, 0, 0);
+    this.lastRotation = undefined;
+    this.lastAngularSpeed = 0;
+  }
+
+  /**
+   * Smoothing factor for a first-order low-pass filter at the given cutoff (Hz)
+   */
+  private alpha(cutoff: number, dt: number): number {
+    const tau = 1 / (2 * Math.PI * cutoff);
+    return 1 / (1 + tau / dt);
+  }
+}
+
+/**
+ * Constant-velocity Kalman filter, run independently on each position axis
+ *
+ * Only position is Kalman-filtered; rotation uses the same time-based slerp
+ * as the exponential strategy, tuned by `rotationSmoothingFactor`.
+ */
+export class KalmanStrategy implements FilterStrategy {
+  private axes: KalmanAxis[] = [];
+  private lastRotation?: Quaternion;
+
+  constructor(private options: PoseFilterOptions) {}
+
+  filterPosition(position: Vector3, deltaMs: number): Vector3 {
+    const measurement = position.toArray();
+
+    if (this.axes.length === 0) {
+      this.axes = measurement.map(value => new KalmanAxis(value));
+      return position.clone();
+    }
+
+    const dt = deltaMs / 1000;
+    const { processNoise, measurementNoise } = this.options.kalman;
+    return new Vector3().fromArray(
+      this.axes.map((axis, i) => axis.step(measurement[i], dt, processNoise, measurementNoise))
+    );
+  }
+
+  filterRotation(rotation: Quaternion, deltaMs: number): Quaternion {
+    this.lastRotation = smoothRotationOverTime(
+      this.lastRotation, rotation, this.options.rotationSmoothingFactor, deltaMs
+    );
+    return this.lastRotation.clone();
+  }
+
+  predictPosition(aheadMs: number): Vector3 | null {
+    if (this.axes.length === 0) return null;
+    return new Vector3().fromArray(this.axes.map(axis => axis.predict(aheadMs / 1000)));
+  }
+
+  reset(): void {
+    this.axes = [];
+    this.lastRotation = undefined;
+  }
+}
+
+/**
+ * Single-axis Kalman state: position and velocity with a 2x2 covariance
+ */
+class KalmanAxis {
+  private velocity = 0;
+  // Covariance matrix [[p00, p01], [p01, p11]]
+  private p00 = 1;
+  private p01 = 0;
+  private p11 = 1;
+
+  constructor(private position: number) {}
+
+  step(measurement: number, dt: number, processNoise: number, measurementNoise: number): number {
+    // Predict
+    this.position += this.velocity * dt;
+
+    const dt2 = dt * dt;
+    const p00 = this.p00 + dt * (2 * this.p01 + dt * this.p11) + processNoise * dt2 * dt2 / 4;
+    const p01 = this.p01 + dt * this.p11 + processNoise * dt2 * dt / 2;
+    const p11 = this.p11 + processNoise * dt2;
+
+    // Update
+    const innovation = measurement - this.position;
+    const s = p00 + measurementNoise;
+    const k0 = p00 / s;
+    const k1 = p01 / s;
+
+    this.position += k0 * innovation;
+    this.velocity += k1 * innovation;
+
+    this.p00 = (1 - k0) * p00;
+    this.p01 = (1 - k0) * p01;
+    this.p11 = p11 - k1 * p01;
+
+    return this.position;
+  }
+
+  predict(ahead: number): number {
+    return this.position + this.velocity * ahead;
+  }
+}
+
+/**
+ * Create the strategy selected in the filter options
+ */
+export function createFilterStrategy(options: PoseFilterOptions): FilterStrategy {
+  switch (options.strategy) {
+    case 'oneEuro':
+      return new OneEuroStrategy(options);
+    case 'kalman':
+      return new KalmanStrategy(options);
+    case 'exponential':
+    default:
+      return new ExponentialStrategy(options);
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * PrintQuality - Print resolution of artwork at its framed size
+ */
+
+import { PrintQuality, PrintQualityOptions } from '../types';
+
+const METERS_PER_INCH = 0.0254;
+
+/**
+ * Effective DPI of an image printed at a size, rated against the thresholds
+ *
+ * @param width - Print width in meters
+ * @param height - Print height in meters
+ */
+export function computePrintQuality(
+  pixels: { width: number; height: number },
+  width: number,
+  height: number,
+  options: PrintQualityOptions
+): PrintQuality {
+  const dpi = Math.min(
+    pixels.width / (width / METERS_PER_INCH),
+    pixels.height / (height / METERS_PER_INCH)
+  );
+
+  let level: PrintQuality['level'] = 'poor';
+  if (dpi >= options.excellentDpi) {
+    level = 'excellent';
+  } else if (dpi >= options.minimumDpi) {
+    level = 'acceptable';
+  }
+
+  return { dpi: Math.round(dpi), level };
+}
+
+/**
+ * Largest print size, in meters, that still meets the minimum DPI
+ */
+export function getMaxPrintSize(
+  pixels: { width: number; height: number },
+  options: PrintQualityOptions
+): { width: number; height: number } {
+  return {
+    width: pixels.width / options.minimumDpi * METERS_PER_INCH,
+    height: pixels.height / options.minimumDpi * METERS_PER_INCH
+  };
+}
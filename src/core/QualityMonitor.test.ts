@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { QualityMonitor } from './QualityMonitor';
+import { QualityChange } from '../types';
+
+interface Run {
+  // Tier changes with the time each happened at
+  changes: (QualityChange & { at: number })[];
+  // Time after the last frame
+  end: number;
+}
+
+/**
+ * Feed frames `interval(i)` ms apart, each taking `workTime` ms, from `start` for `duration` ms
+ */
+function run(
+  monitor: QualityMonitor,
+  interval: (i: number) => number,
+  workTime: number,
+  duration: number,
+  start = 0
+): Run {
+  const changes: Run['changes'] = [];
+  let now = start;
+  for (let i = 0; now < start + duration; i++) {
+    const change = monitor.frame(now, workTime);
+    if (change) changes.push({ ...change, at: now - start });
+    now += interval(i);
+  }
+  return { changes, end: now };
+}
+
+const at60fps = () => {
+  const monitor = new QualityMonitor(true);
+  monitor.setTargetFrameRate(60);
+  return monitor;
+};
+
+describe('QualityMonitor', () => {
+  it('steps down after frames stay over budget for the hold time', () => {
+    const monitor = at60fps();
+    const { changes } = run(monitor, () => 25, 10, 3000);
+
+    expect(changes[0]).toMatchObject({ previousTier: 'high', tier: 'medium' });
+    expect(changes[0].at).toBeGreaterThanOrEqual(1000);
+    expect(changes[0].at).toBeLessThan(1100);
+  });
+
+  it('budgets against the target frame rate', () => {
+    const monitor = new QualityMonitor(true);
+    monitor.setTargetFrameRate(30);
+
+    expect(run(monitor, () => 1000 / 30, 20, 20000).changes).toEqual([]);
+    expect(monitor.getFrameBudget()).toBeCloseTo(33.3, 1);
+  });
+
+  it('infers a 60 Hz budget from the fastest frames', () => {
+    const monitor = new QualityMonitor(true);
+    // Mostly missing vsync, with a few frames on time
+    const { changes } = run(monitor, i => (i % 5 === 0 ? 16.7 : 33.4), 20, 3000);
+
+    expect(monitor.getFrameBudget()).toBeCloseTo(16.7, 1);
+    expect(changes[0]?.tier).toBe('medium');
+  });
+
+  it('holds its tier near the thresholds', () => {
+    const monitor = at60fps();
+    // Smoothed to 19 ms: over budget, but not by enough to step down
+    const { changes } = run(monitor, i => (i % 2 === 0 ? 17 : 21), 8, 30000);
+
+    expect(changes).toEqual([]);
+    expect(monitor.getTier().name).toBe('high');
+  });
+
+  it('steps up after frames stay on budget with headroom for the hold time', () => {
+    const monitor = new QualityMonitor(true, 'low');
+    monitor.setTargetFrameRate(60);
+    const { changes } = run(monitor, () => 1000 / 60, 5, 5000);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ previousTier: 'low', tier: 'medium' });
+    expect(changes[0].at).toBeGreaterThanOrEqual(4000);
+  });
+
+  it("doesn't step up without headroom", () => {
+    const monitor = new QualityMonitor(true, 'low');
+    monitor.setTargetFrameRate(60);
+
+    expect(run(monitor, () => 1000 / 60, 12, 20000).changes).toEqual([]);
+  });
+
+  it('doubles the wait to step up after a step up fails', () => {
+    const monitor = new QualityMonitor(true, 'medium');
+    monitor.setTargetFrameRate(60);
+
+    const up = run(monitor, () => 1000 / 60, 5, 4100);
+    expect(up.changes.map(change => change.tier)).toEqual(['high']);
+
+    // Too slow at the higher tier
+    const down = run(monitor, () => 25, 15, 1500, up.end);
+    expect(down.changes.map(change => change.tier)).toEqual(['medium']);
+
+    const early = run(monitor, () => 1000 / 60, 5, 7000, down.end);
+    expect(early.changes).toEqual([]);
+    const retry = run(monitor, () => 1000 / 60, 5, 2000, early.end);
+    expect(retry.changes.map(change => change.tier)).toEqual(['high']);
+  });
+
+  it('measures without changing tier when not adaptive', () => {
+    const monitor = new QualityMonitor(false);
+    monitor.setTargetFrameRate(60);
+
+    expect(run(monitor, () => 50, 40, 5000).changes).toEqual([]);
+    expect(monitor.getFrameTime()).toBeCloseTo(50, 5);
+  });
+});
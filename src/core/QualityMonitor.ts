@@ -0,0 +1,193 @@
+/**
+ * QualityMonitor - Frame-time driven quality tiers
+ *
+ * Measures frames against the display's frame budget: the XR session's
+ * frame rate when known, otherwise the refresh interval inferred from the
+ * fastest recent frames. Steps down a tier when frames stay over budget, and
+ * up a tier when they stay on budget with CPU work well under it. Separate
+ * thresholds, and how long each must hold, keep it from flickering between
+ * tiers. Stepping down soon after stepping up makes the next step up wait
+ * twice as long.
+ */
+
+import { QualityTier, QualityTierName, QualityChange } from '../types';
+
+/** Lowest first */
+export const QUALITY_TIERS: QualityTier[] = [
+  {
+    name: 'low',
+    settings: { pixelRatio: 1, xrFramebufferScale: 0.7, shadowMapSize: 0, neonHalos: false, glazing: 'reduced', maxTextureSize: 1024 }
+  },
+  {
+    name: 'medium',
+    settings: { pixelRatio: 1.5, xrFramebufferScale: 0.85, shadowMapSize: 1024, neonHalos: true, glazing: 'reduced', maxTextureSize: 2048 }
+  },
+  {
+    name: 'high',
+    settings: { pixelRatio: 2, xrFramebufferScale: 1, shadowMapSize: 2048, neonHalos: true, glazing: 'full', maxTextureSize: 4096 }
+  }
+];
+
+/** Smoothed frame time over budget, as a multiple of it, that counts as slow */
+const SLOW_RATIO = 1.2;
+/** Smoothed frame time within this multiple of the budget counts as on budget */
+const ON_BUDGET_RATIO = 1.1;
+/** Smoothed render work under this fraction of the budget leaves room to step up */
+const HEADROOM_RATIO = 0.6;
+
+/** How long (ms) frames must stay slow before stepping down, and fast before stepping up */
+const DOWNGRADE_HOLD = 1000;
+const UPGRADE_HOLD = 4000;
+const MAX_UPGRADE_HOLD = 60000;
+
+/** A step down within this long (ms) of a step up counts as the step up failing */
+const FAILED_UPGRADE_WINDOW = 10000;
+
+/** Longer gaps (ms), e.g. a backgrounded tab, aren't slow frames */
+const MAX_FRAME_GAP = 100;
+
+/** Display refresh rates a frame budget is inferred from */
+const REFRESH_RATES = [30, 60, 72, 90, 120];
+
+/** Recent frame intervals kept for inferring the refresh rate, and how many are needed */
+const INTERVAL_HISTORY = 60;
+const MIN_INTERVALS = 30;
+
+const SMOOTHING = 0.05;
+
+export class QualityMonitor {
+  // Without it, frame times are still measured but the tier stays put
+  private adaptive: boolean;
+  private tierIndex: number;
+  // Smoothed time between frames and smoothed render work per frame, in ms
+  private frameTime?: number;
+  private workTime?: number;
+  private lastFrameAt?: number;
+  private intervals: number[] = [];
+  // Frame rate the platform reports, e.g. an XR session's
+  private targetFrameRate?: number;
+  // Highest refresh rate inferred from frame timing so far
+  private inferredFrameRate?: number;
+  // When frames last became slow or fast, while they still are
+  private slowSince?: number;
+  private fastSince?: number;
+  private upgradeHold = UPGRADE_HOLD;
+  private lastUpgradeAt = -Infinity;
+
+  constructor(adaptive: boolean, initialTier: QualityTierName = 'high') {
+    this.adaptive = adaptive;
+    this.tierIndex = QUALITY_TIERS.findIndex(tier => tier.name === initialTier);
+  }
+
+  /**
+   * Budget frames against a known frame rate, or infer it from frame timing with undefined
+   */
+  setTargetFrameRate(frameRate: number | undefined): void {
+    this.targetFrameRate = frameRate && frameRate > 0 ? frameRate : undefined;
+    this.inferredFrameRate = undefined;
+    this.reset();
+  }
+
+  /**
+   * Record a rendered frame
+   *
+   * @param now - When the frame started, in ms
+   * @param workTime - Time spent updating and rendering it, in ms
+   * @returns The tier change it caused, if any
+   */
+  frame(now: number = performance.now(), workTime = 0): QualityChange | null {
+    const previousFrameAt = this.lastFrameAt;
+    this.lastFrameAt = now;
+    if (previousFrameAt === undefined) return null;
+
+    const elapsed = Math.min(now - previousFrameAt, MAX_FRAME_GAP);
+    this.frameTime = this.smooth(this.frameTime, elapsed);
+    this.workTime = this.smooth(this.workTime, workTime);
+    this.intervals.push(elapsed);
+    if (this.intervals.length > INTERVAL_HISTORY) this.intervals.shift();
+
+    const budget = this.getFrameBudget();
+    if (!this.adaptive || budget === undefined) return null;
+
+    if (this.frameTime > budget * SLOW_RATIO) {
+      this.fastSince = undefined;
+      this.slowSince ??= now;
+      if (now - this.slowSince >= DOWNGRADE_HOLD && this.tierIndex > 0) {
+        if (now - this.lastUpgradeAt < FAILED_UPGRADE_WINDOW) {
+          this.upgradeHold = Math.min(this.upgradeHold * 2, MAX_UPGRADE_HOLD);
+        }
+        return this.changeTier(this.tierIndex - 1);
+      }
+    } else if (this.frameTime <= budget * ON_BUDGET_RATIO && this.workTime < budget * HEADROOM_RATIO) {
+      this.slowSince = undefined;
+      this.fastSince ??= now;
+      if (now - this.fastSince >= this.upgradeHold && this.tierIndex < QUALITY_TIERS.length - 1) {
+        this.lastUpgradeAt = now;
+        return this.changeTier(this.tierIndex + 1);
+      }
+    } else {
+      this.slowSince = undefined;
+      this.fastSince = undefined;
+    }
+    return null;
+  }
+
+  getTier(): QualityTier {
+    return QUALITY_TIERS[this.tierIndex];
+  }
+
+  /**
+   * Smoothed time between frames in ms, or 0 before two frames are recorded
+   */
+  getFrameTime(): number {
+    return this.frameTime ?? 0;
+  }
+
+  /**
+   * Time per frame at the target or inferred frame rate in ms, or undefined
+   * while too few frames are recorded to infer it
+   *
+   * Vsync holds frames to whole refresh intervals, so the fastest recent
+   * frames show the refresh rate even when most frames miss it. The highest
+   * rate seen is kept, so a stretch of uniformly slow frames isn't mistaken
+   * for a slower display.
+   */
+  getFrameBudget(): number | undefined {
+    if (this.targetFrameRate) return 1000 / this.targetFrameRate;
+
+    if (this.intervals.length >= MIN_INTERVALS) {
+      const fastest = [...this.intervals].sort((a, b) => a - b)[Math.floor(this.intervals.length * 0.1)];
+      const refreshRate = REFRESH_RATES.reduce((best, rate) =>
+        Math.abs(1000 / rate - fastest) < Math.abs(1000 / best - fastest) ? rate : best
+      );
+      this.inferredFrameRate = Math.max(this.inferredFrameRate ?? 0, refreshRate);
+    }
+    return this.inferredFrameRate ? 1000 / this.inferredFrameRate : undefined;
+  }
+
+  /**
+   * Forget frame timing, e.g. when rendering pauses or switches loops
+   */
+  reset(): void {
+    this.frameTime = undefined;
+    this.workTime = undefined;
+    this.lastFrameAt = undefined;
+    this.intervals = [];
+    this.slowSince = undefined;
+    this.fastSince = undefined;
+  }
+
+  private smooth(average: number | undefined, sample: number): number {
+    return average === undefined ? sample : average + (sample - average) * SMOOTHING;
+  }
+
+  private changeTier(index: number): QualityChange {
+    const previousTier = this.getTier().name;
+    const frameTime = this.getFrameTime();
+    this.tierIndex = index;
+
+    // The switch itself can stall a frame; start measuring afresh
+    this.reset();
+    return { tier: this.getTier().name, previousTier, frameTime };
+  }
+}
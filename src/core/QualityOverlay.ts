@@ -0,0 +1,66 @@
+/**
+ * QualityOverlay - On-screen readout of adaptive quality, for tuning on devices
+ */
+
+import { QualityTier, TextureStats } from '../types';
+
+/** Time between readout updates, in ms */
+const UPDATE_INTERVAL = 250;
+
+const BYTES_PER_MB = 1024 * 1024;
+
+export class QualityOverlay {
+  private element: HTMLDivElement;
+  private lastUpdate = -Infinity;
+
+  constructor(parent: HTMLElement) {
+    this.element = document.createElement('div');
+    this.element.style.cssText = `
+      position: fixed;
+      top: 8px;
+      left: 8px;
+      z-index: 10000;
+      padding: 6px 8px;
+      border-radius: 4px;
+      background: rgba(0, 0, 0, 0.6);
+      color: #fff;
+      font: 11px/1.4 monospace;
+      white-space: pre;
+      pointer-events: none;
+    `;
+    parent.appendChild(this.element);
+  }
+
+  /**
+   * Show the current tier, frame time and texture memory, at most every UPDATE_INTERVAL
+   *
+   * @param xrScale - Resolution scale the running XR session renders at; without
+   *   view scaling the tier's only applies from the next session
+   */
+  update(
+    tier: QualityTier,
+    frameTime: number,
+    textures: TextureStats,
+    xrScale?: number,
+    now: number = performance.now()
+  ): void {
+    if (now - this.lastUpdate < UPDATE_INTERVAL) return;
+    this.lastUpdate = now;
+
+    const { settings } = tier;
+    const fps = frameTime > 0 ? Math.round(1000 / frameTime) : 0;
+    this.element.textContent = [
+      `quality ${tier.name}  ${frameTime.toFixed(1)} ms (${fps} fps)`,
+      `pixel ratio ${settings.pixelRatio}  xr scale ` + (xrScale === undefined || Math.abs(xrScale - settings.xrFramebufferScale) < 0.01
+        ? `${settings.xrFramebufferScale}`
+        : `${+xrScale.toFixed(2)} (tier ${settings.xrFramebufferScale})`),
+      `shadows ${settings.shadowMapSize || 'off'}  halos ${settings.neonHalos ? 'on' : 'off'}  glazing ${settings.glazing}`,
+      `textures ${textures.textures}  ${(textures.bytes / BYTES_PER_MB).toFixed(1)}/${Math.round(textures.budgetBytes / BYTES_PER_MB)} MB` +
+        `  ${textures.compressedFormat}  max ${settings.maxTextureSize}`
+    ].join('\n');
+  }
+
+  dispose(): void {
+    this.element.remove();
+  }
+}
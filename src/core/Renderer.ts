@@ -10,22 +10,40 @@ import {
   AmbientLight,
   Group,
   Mesh,
+  LineLoop,
+  LineSegments,
+  BufferGeometry,
+  LineBasicMaterial,
+  Object3D,
+  Raycaster,
+  Ray,
   PlaneGeometry,
-  BoxGeometry,
   MeshStandardMaterial,
   MeshPhysicalMaterial,
   ShaderMaterial,
+  Material,
   Texture,
-  TextureLoader,
+  MeshBasicMaterial,
   CanvasTexture,
+  Vector2,
   Vector3,
+  Matrix4,
   Color,
   PMREMGenerator,
+  RepeatWrapping,
   sRGBEncoding,
   ACESFilmicToneMapping
 } from 'three';
+import { RoomEnvironment } from 'three/examples/jsm/environments/RoomEnvironment.js';
 
-import { ARMode, FrameData, NeonData, AREngineConfig } from '../types';
+import { ARMode, FrameData, NeonData, AREngineConfig, PlaneData, HitPose, GlazingType, ArtworkLoadProgress, TextureStats, QualityChange, QualitySettings, QualityTierName } from '../types';
+import { PlaneVisualizer } from './PlaneVisualizer';
+import { MeasurementOverlay, MeasurementLine } from './MeasurementOverlay';
+import { getFrameStyle, getFrameBorder, createFrameGeometry } from './FrameStyles';
+import { getMatLayout, createMatGeometry, MAT_THICKNESS, MAT_CORE_COLOR } from './MatBoard';
+import { TextureCache } from './TextureCache';
+import { QualityMonitor, QUALITY_TIERS } from './QualityMonitor';
+import { QualityOverlay } from './QualityOverlay';
 import { 
   neonVertexShader, 
   neonFragmentShader, 
@@ -33,6 +51,39 @@ import {
   neonHaloFragmentShader,
   neonPresets 
 } from '../shaders/neonGlow';
+import { shimmerVertexShader, shimmerFragmentShader } from '../shaders/placeholder';
+
+/** Distance from the wall to a frame's origin, in meters; the moulding's back rests this far behind it */
+export const FRAME_DEPTH = 0.02;
+
+/** Distance between the neon halo and the glowing text, in meters */
+export const NEON_DEPTH = 0.01;
+
+/** Neon text canvas pixels per meter of sign */
+const NEON_PIXELS_PER_METER = 100;
+
+/** Gap between an object's outer edge and its selection outline, in meters */
+const SELECTION_MARGIN = 0.015;
+const SELECTION_COLOR = 0x34c759;
+const SNAP_GUIDE_COLOR = 0xff2d55;
+
+/** Thickness of the glazing sheet, in meters */
+const GLAZING_THICKNESS = 0.002;
+
+// `reducedOpacity` stands in for the reflections when transmission is off
+const glazingPresets: Record<Exclude<GlazingType, 'none'>, {
+  ior: number;
+  specularIntensity: number;
+  roughness: number;
+  reducedOpacity: number;
+}> = {
+  // Float glass, about 4% reflectance per surface
+  glass: { ior: 1.52, specularIntensity: 1, roughness: 0.02, reducedOpacity: 0.12 },
+  // Anti-reflective coated glass, under 1% reflectance
+  museum: { ior: 1.52, specularIntensity: 0.15, roughness: 0.03, reducedOpacity: 0.03 },
+  // Slightly lower index and softer reflections than glass
+  acrylic: { ior: 1.49, specularIntensity: 0.9, roughness: 0.06, reducedOpacity: 0.1 }
+};
 
 export class Renderer {
   private renderer: WebGLRenderer;
@@ -40,13 +91,42 @@ export class Renderer {
   private camera: PerspectiveCamera;
   private frameObjects: Map<string, Group> = new Map();
   private neonObjects: Map<string, Group> = new Map();
-  private textureLoader: TextureLoader;
+  private textureCache: TextureCache;
+  // Shared by all artworks that are loading or failed; never disposed with an object
+  private placeholderMaterial: ShaderMaterial;
+  private errorMaterial?: MeshBasicMaterial;
   private pmremGenerator: PMREMGenerator;
+  private planeVisualizer: PlaneVisualizer;
+  private measurementOverlay: MeasurementOverlay;
+  // Unscaled neon sign sizes by text and font, measured once
+  private neonSizes: Map<string, { width: number; height: number }> = new Map();
   private config: AREngineConfig;
+  private raycaster = new Raycaster();
+  private selectedObject: FrameData | NeonData | null = null;
+  private selectionHighlight?: LineLoop<BufferGeometry, LineBasicMaterial>;
+  private snapGuides: LineSegments<BufferGeometry, LineBasicMaterial>;
   private clock = { getElapsedTime: () => performance.now() / 1000 };
+  private environmentMap?: Texture;
+  // 'reduced' renders glazing without transmission
+  private glazingQuality: 'full' | 'reduced' = 'full';
+  private directionalLight = new DirectionalLight(0xffffff, 0.8);
+  // Steps quality tiers with frame time when adaptive quality is on
+  private qualityMonitor: QualityMonitor;
+  private qualityOverlay?: QualityOverlay;
+  // Framebuffer scale of the current or last XR session
+  private xrFramebufferScale?: number;
+  // Share of that framebuffer the session's views render to, and a new share
+  // to request in the next frame
+  private xrViewportScale = 1;
+  private pendingViewportScale?: number;
+
+  private onArtworkLoadedCallback?: (objectId: string, pixels: { width: number; height: number }) => void;
+  private onArtworkProgressCallback?: (progress: ArtworkLoadProgress) => void;
+  private onQualityChangedCallback?: (change: QualityChange) => void;
 
   constructor(canvas: HTMLCanvasElement, config: AREngineConfig) {
     this.config = config;
+    this.qualityMonitor = new QualityMonitor(config.rendering.adaptiveQuality);
     
     // Initialize WebGL renderer
     this.renderer = new WebGLRenderer({
@@ -57,7 +137,6 @@ export class Renderer {
     });
     
     this.renderer.setSize(window.innerWidth, window.innerHeight);
-    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
     this.renderer.outputEncoding = sRGBEncoding;
     this.renderer.toneMapping = ACESFilmicToneMapping;
     this.renderer.toneMappingExposure = 1.2;
@@ -76,8 +155,32 @@ export class Renderer {
     this.setupLighting();
     
     // Initialize utilities
-    this.textureLoader = new TextureLoader();
+    this.textureCache = new TextureCache(config.textures, this.renderer);
+    this.placeholderMaterial = new ShaderMaterial({
+      vertexShader: shimmerVertexShader,
+      fragmentShader: shimmerFragmentShader,
+      uniforms: {
+        baseColor: { value: new Color(0xd8d8d8) },
+        highlightColor: { value: new Color(0xf4f4f4) },
+        time: { value: 0 },
+        speed: { value: 0.6 }
+      }
+    });
+    this.placeholderMaterial.userData.shared = true;
     this.pmremGenerator = new PMREMGenerator(this.renderer);
+    this.planeVisualizer = new PlaneVisualizer(this.scene);
+    this.measurementOverlay = new MeasurementOverlay(this.scene);
+    this.applyQualitySettings(this.qualityMonitor.getTier().settings);
+
+    // Alignment guides, drawn over everything while snapping is active
+    this.snapGuides = new LineSegments(
+      new BufferGeometry(),
+      new LineBasicMaterial({ color: SNAP_GUIDE_COLOR, depthTest: false, transparent: true })
+    );
+    this.snapGuides.renderOrder = 2;
+    this.snapGuides.frustumCulled = false;
+    this.snapGuides.visible = false;
+    this.scene.add(this.snapGuides);
     
     // Handle resize
     window.addEventListener('resize', this.onResize.bind(this));
@@ -91,14 +194,12 @@ export class Renderer {
     const ambientLight = new AmbientLight(0xffffff, 0.6);
     this.scene.add(ambientLight);
 
-    // Main directional light (simulates sun/room lighting)
-    const directionalLight = new DirectionalLight(0xffffff, 0.8);
+    // Main directional light (simulates sun/room lighting); its shadow map
+    // size follows the quality tier
+    const directionalLight = this.directionalLight;
     directionalLight.position.set(5, 10, 5);
     
     if (this.config.rendering.shadowsEnabled) {
-      directionalLight.castShadow = true;
-      directionalLight.shadow.mapSize.width = 2048;
-      directionalLight.shadow.mapSize.height = 2048;
       directionalLight.shadow.camera.near = 0.5;
       directionalLight.shadow.camera.far = 50;
     }
@@ -108,81 +209,60 @@ export class Renderer {
 
   /**
    * Create frame object with PBR materials
+   *
+   * The moulding is built from the frame's style and goes around the mats.
+   * Mats are stacked in the rabbet, behind the moulding's front, with the
+   * artwork behind their openings.
    */
   createFrame(frameData: FrameData): Group {
     const frameGroup = new Group();
+    const style = getFrameStyle(frameData.frameStyle);
+    const mat = getMatLayout(frameData);
+    const matFrontZ = style.depth - style.rabbet.depth - FRAME_DEPTH;
+    // Just behind the bottom mat, so the overlapped edges don't z-fight
+    const artworkZ = matFrontZ - mat.layers.length * MAT_THICKNESS - 0.0005;
     
-    // Create artwork plane
-    const artworkGeometry = new PlaneGeometry(frameData.width, frameData.height);
-    const artworkMaterial = new MeshStandardMaterial();
-    
-    // Load artwork texture
-    this.loadTexture(frameData.artworkUrl).then(texture => {
-      artworkMaterial.map = texture;
-      artworkMaterial.needsUpdate = true;
-    });
-    
-    const artworkMesh = new Mesh(artworkGeometry, artworkMaterial);
-    artworkMesh.position.z = 0.01; // Slightly forward to avoid z-fighting
+    // Artwork plane, shimmering until its texture arrives
+    const artworkMesh = new Mesh(new PlaneGeometry(frameData.width, frameData.height), this.placeholderMaterial);
+    artworkMesh.position.set(mat.center.x, mat.center.y, artworkZ);
     frameGroup.add(artworkMesh);
 
-    // Create frame border
-    const frameThickness = 0.03;
-    const frameDepth = 0.02;
-    
-    // Frame pieces (top, bottom, left, right)
-    const framePieces = [
-      // Top
-      new BoxGeometry(frameData.width + frameThickness * 2, frameThickness, frameDepth),
-      // Bottom  
-      new BoxGeometry(frameData.width + frameThickness * 2, frameThickness, frameDepth),
-      // Left
-      new BoxGeometry(frameThickness, frameData.height, frameDepth),
-      // Right
-      new BoxGeometry(frameThickness, frameData.height, frameDepth)
-    ];
-
-    const framePositions = [
-      new Vector3(0, frameData.height / 2 + frameThickness / 2, -frameDepth / 2),
-      new Vector3(0, -frameData.height / 2 - frameThickness / 2, -frameDepth / 2),
-      new Vector3(-frameData.width / 2 - frameThickness / 2, 0, -frameDepth / 2),
-      new Vector3(frameData.width / 2 + frameThickness / 2, 0, -frameDepth / 2)
-    ];
-
-    // Create frame material with PBR
+    // Moulding extruded from the style's profile, its back on the wall
     const frameMaterial = new MeshPhysicalMaterial({
       color: new Color(frameData.frameColor),
-      metalness: 0.1,
-      roughness: 0.3,
-      clearcoat: 0.8,
-      clearcoatRoughness: 0.2
+      metalness: style.material.metalness,
+      roughness: style.material.roughness,
+      clearcoat: style.material.clearcoat ?? 0,
+      clearcoatRoughness: style.material.clearcoatRoughness ?? 0
     });
 
-    framePieces.forEach((geometry, index) => {
-      const framePiece = new Mesh(geometry, frameMaterial);
-      framePiece.position.copy(framePositions[index]);
-      framePiece.castShadow = this.config.rendering.shadowsEnabled;
-      framePiece.receiveShadow = this.config.rendering.shadowsEnabled;
-      frameGroup.add(framePiece);
-    });
+    const moulding = new Mesh(createFrameGeometry(style, mat.width, mat.height), frameMaterial);
+    moulding.position.z = -FRAME_DEPTH;
+    moulding.castShadow = this.config.rendering.shadowsEnabled;
+    moulding.receiveShadow = this.config.rendering.shadowsEnabled;
+    frameGroup.add(moulding);
+    if (style.material.map) {
+      this.loadFrameFinish(style.material.map, frameData.id, frameGroup, frameMaterial);
+    }
 
-    // Add mat if specified
-    if (frameData.matColor && frameData.matColor !== 'none') {
-      const matBorder = 0.05;
-      const matGeometry = new PlaneGeometry(
-        frameData.width - matBorder,
-        frameData.height - matBorder
-      );
-      
-      const matMaterial = new MeshStandardMaterial({
-        color: new Color(frameData.matColor),
-        roughness: 0.8,
-        metalness: 0.0
-      });
-      
-      const matMesh = new Mesh(matGeometry, matMaterial);
-      matMesh.position.z = 0.005;
+    // Mats, top first, each with its bevel showing the board's core
+    mat.layers.forEach((layer, index) => {
+      const matMesh = new Mesh(createMatGeometry(mat, layer), [
+        new MeshStandardMaterial({ color: new Color(layer.color), roughness: 0.9, metalness: 0.0 }),
+        new MeshStandardMaterial({ color: new Color(MAT_CORE_COLOR), roughness: 0.9, metalness: 0.0 })
+      ]);
+      matMesh.position.z = matFrontZ - (index + 1) * MAT_THICKNESS;
+      matMesh.receiveShadow = this.config.rendering.shadowsEnabled;
       frameGroup.add(matMesh);
+    });
+
+    // Glazing in front of the mats, its edges under the rabbet
+    const glazing = frameData.glazing ?? 'none';
+    if (glazing !== 'none') {
+      const glazingMesh = new Mesh(new PlaneGeometry(mat.width, mat.height), this.createGlazingMaterial(glazing));
+      glazingMesh.position.z = matFrontZ + 0.001;
+      glazingMesh.userData.glazing = glazing;
+      frameGroup.add(glazingMesh);
     }
 
     // Set position and rotation from frame data
@@ -190,12 +270,102 @@ export class Renderer {
     frameGroup.rotation.copy(frameData.rotation);
     frameGroup.scale.copy(frameData.scale);
 
+    frameGroup.userData.objectId = frameData.id;
     this.scene.add(frameGroup);
     this.frameObjects.set(frameData.id, frameGroup);
+    this.restoreSelectionHighlight(frameData, frameGroup);
+    this.loadArtwork(frameData, frameGroup, artworkMesh);
 
     return frameGroup;
   }
 
+  /**
+   * Load a frame's artwork progressively onto its mesh: preview, then full
+   * resolution, or the error material if it fails
+   */
+  private loadArtwork(frameData: FrameData, frameGroup: Group, artworkMesh: Mesh): void {
+    // The frame may be removed (e.g. undone) or rebuilt while loading
+    const isCurrent = () => this.frameObjects.get(frameData.id) === frameGroup;
+    const report = (stage: ArtworkLoadProgress['stage'], progress: number | null, error?: Error) => {
+      this.onArtworkProgressCallback?.({ objectId: frameData.id, stage, progress, error });
+    };
+    const show = (material: Material) => {
+      const previous = artworkMesh.material as Material;
+      artworkMesh.material = material;
+      this.disposeMaterial(previous);
+    };
+
+    report('loading', 0);
+
+    this.textureCache.acquire(frameData.artworkUrl, {
+      onProgress: progress => {
+        if (isCurrent()) report('loading', progress);
+      },
+      onPreview: texture => {
+        // The cache owns previews; showing one swaps out any earlier one
+        if (!isCurrent()) return;
+        show(new MeshStandardMaterial({ map: texture }));
+        report('preview', null);
+      }
+    }, frameData.artworkPreviewUrl).then(({ texture, pixels }) => {
+      if (!isCurrent()) {
+        this.textureCache.release(texture);
+        return;
+      }
+      show(new MeshStandardMaterial({ map: texture }));
+      report('complete', 1);
+      this.onArtworkLoadedCallback?.(frameData.id, pixels);
+    }).catch((error: Error) => {
+      if (!isCurrent()) return;
+      console.warn('Artwork failed to load:', error);
+      show(this.getErrorMaterial());
+      report('error', null, error);
+    });
+  }
+
+  /**
+   * Tile a frame style's finish texture over its moulding once loaded
+   */
+  private loadFrameFinish(url: string, objectId: string, frameGroup: Group, material: MeshStandardMaterial): void {
+    this.textureCache.acquire(url).then(({ texture }) => {
+      if (this.frameObjects.get(objectId) !== frameGroup) {
+        this.textureCache.release(texture);
+        return;
+      }
+      if (texture.wrapS !== RepeatWrapping) {
+        texture.wrapS = texture.wrapT = RepeatWrapping;
+        texture.needsUpdate = true;
+      }
+      material.map = texture;
+      material.needsUpdate = true;
+    }).catch((error: Error) => console.warn('Frame finish failed to load:', error));
+  }
+
+  /**
+   * Material for artwork that failed to load: grey with a broken-image mark
+   */
+  private getErrorMaterial(): MeshBasicMaterial {
+    if (!this.errorMaterial) {
+      const canvas = document.createElement('canvas');
+      canvas.width = canvas.height = 256;
+      const ctx = canvas.getContext('2d')!;
+      ctx.fillStyle = '#9a9a9a';
+      ctx.fillRect(0, 0, 256, 256);
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 12;
+      ctx.beginPath();
+      ctx.moveTo(88, 88);
+      ctx.lineTo(168, 168);
+      ctx.moveTo(168, 88);
+      ctx.lineTo(88, 168);
+      ctx.stroke();
+
+      this.errorMaterial = new MeshBasicMaterial({ map: new CanvasTexture(canvas) });
+      this.errorMaterial.userData.shared = true;
+    }
+    return this.errorMaterial;
+  }
+
   /**
    * Create neon sign with custom glow shaders
    */
@@ -207,8 +377,8 @@ export class Renderer {
     const textTexture = new CanvasTexture(textCanvas);
     
     const textGeometry = new PlaneGeometry(
-      textCanvas.width / 100, // Scale down
-      textCanvas.height / 100
+      textCanvas.width / NEON_PIXELS_PER_METER,
+      textCanvas.height / NEON_PIXELS_PER_METER
     );
 
     // Get neon preset or create custom
@@ -258,7 +428,9 @@ export class Renderer {
     );
     
     const haloMesh = new Mesh(haloGeometry, haloMaterial);
-    haloMesh.position.z = -0.01; // Behind main neon
+    haloMesh.position.z = -NEON_DEPTH; // Behind main neon
+    haloMesh.userData.halo = true;
+    haloMesh.visible = this.qualityMonitor.getTier().settings.neonHalos;
     neonGroup.add(haloMesh);
 
     // Set position and rotation from neon data
@@ -266,12 +438,207 @@ export class Renderer {
     neonGroup.rotation.copy(neonData.rotation);
     neonGroup.scale.copy(neonData.scale);
 
+    neonGroup.userData.objectId = neonData.id;
     this.scene.add(neonGroup);
     this.neonObjects.set(neonData.id, neonGroup);
+    this.restoreSelectionHighlight(neonData, neonGroup);
 
     return neonGroup;
   }
 
+  /**
+   * Set callback for adaptive quality tier changes
+   */
+  onQualityChanged(callback: (change: QualityChange) => void): void {
+    this.onQualityChangedCallback = callback;
+  }
+
+  /**
+   * Set callback for artwork loading progress, previews, completion and failures
+   */
+  onArtworkProgress(callback: (progress: ArtworkLoadProgress) => void): void {
+    this.onArtworkProgressCallback = callback;
+  }
+
+  /**
+   * Set callback for when a frame's artwork image has loaded, with its pixel size
+   */
+  onArtworkLoaded(callback: (objectId: string, pixels: { width: number; height: number }) => void): void {
+    this.onArtworkLoadedCallback = callback;
+  }
+
+  /**
+   * Get an object's real-world outer size (frame border included), in meters
+   */
+  getObjectSize(object: FrameData | NeonData): { width: number; height: number } {
+    if (object.type === ARMode.FRAME) {
+      const border = getFrameBorder(getFrameStyle(object.frameStyle));
+      const mat = getMatLayout(object);
+      return {
+        width: (mat.width + border * 2) * object.scale.x,
+        height: (mat.height + border * 2) * object.scale.y
+      };
+    }
+
+    const key = `${object.fontSize}|${object.fontFamily}|${object.text}`;
+    let size = this.neonSizes.get(key);
+    if (!size) {
+      const textCanvas = this.createTextCanvas(object.text, object.fontSize, object.fontFamily);
+      size = {
+        width: textCanvas.width / NEON_PIXELS_PER_METER,
+        height: textCanvas.height / NEON_PIXELS_PER_METER
+      };
+      this.neonSizes.set(key, size);
+    }
+
+    return {
+      width: size.width * object.scale.x,
+      height: size.height * object.scale.y
+    };
+  }
+
+  /**
+   * Draw dimension lines, replacing any previous ones
+   */
+  updateMeasurements(measurements: MeasurementLine[]): void {
+    this.measurementOverlay.update(measurements);
+  }
+
+  /**
+   * Hide dimension lines
+   */
+  clearMeasurements(): void {
+    this.measurementOverlay.clear();
+  }
+
+  /**
+   * Find the placed object under a screen point
+   *
+   * @param ndc - Point in normalized device coordinates
+   * @returns The object's ID, or null if nothing was hit
+   */
+  pickObject(ndc: Vector2): string | null {
+    this.raycaster.setFromCamera(ndc, this.getViewCamera());
+    const groups = [...this.frameObjects.values(), ...this.neonObjects.values()];
+    const intersections = this.raycaster.intersectObjects(groups, true);
+
+    for (const intersection of intersections) {
+      // Skip the selection outline; walk up to the object's root group
+      if (intersection.object === this.selectionHighlight) continue;
+
+      let node: Object3D | null = intersection.object;
+      while (node && node.userData.objectId === undefined) {
+        node = node.parent;
+      }
+      if (node) return node.userData.objectId as string;
+    }
+
+    return null;
+  }
+
+  /**
+   * World-space ray from the camera through a screen point
+   */
+  getScreenRay(ndc: Vector2): Ray {
+    this.raycaster.setFromCamera(ndc, this.getViewCamera());
+    return this.raycaster.ray.clone();
+  }
+
+  /**
+   * Camera of the last rendered view: the XR viewer's during an AR session
+   *
+   * The first view's camera is used as three.js doesn't keep the combined XR
+   * camera's inverse projection up to date for a single view.
+   */
+  private getViewCamera(): PerspectiveCamera {
+    if (this.renderer.xr.isPresenting) {
+      const [view] = this.renderer.xr.getCamera().cameras;
+      if (view) return view;
+    }
+    return this.camera;
+  }
+
+  /**
+   * Outline the selected object, or clear the selection with null
+   */
+  setSelectedObject(object: FrameData | NeonData | null): void {
+    this.removeSelectionHighlight();
+    this.selectedObject = object;
+
+    if (object) {
+      const group = this.frameObjects.get(object.id) ?? this.neonObjects.get(object.id);
+      if (group) {
+        this.addSelectionHighlight(object, group);
+      }
+    }
+  }
+
+  /**
+   * Draw snapping guide lines, replacing any previous ones
+   */
+  showSnapGuides(segments: { start: Vector3; end: Vector3 }[]): void {
+    if (segments.length === 0) {
+      this.clearSnapGuides();
+      return;
+    }
+
+    this.snapGuides.geometry.dispose();
+    this.snapGuides.geometry = new BufferGeometry().setFromPoints(
+      segments.flatMap(segment => [segment.start, segment.end])
+    );
+    this.snapGuides.visible = true;
+  }
+
+  /**
+   * Hide snapping guide lines
+   */
+  clearSnapGuides(): void {
+    this.snapGuides.visible = false;
+  }
+
+  /**
+   * Re-add the outline when the selected object's group is rebuilt
+   */
+  private restoreSelectionHighlight(object: FrameData | NeonData, group: Group): void {
+    if (this.selectedObject?.id === object.id) {
+      this.removeSelectionHighlight();
+      this.selectedObject = object;
+      this.addSelectionHighlight(object, group);
+    }
+  }
+
+  /**
+   * Rectangle just outside the object's outer edge, in the group's local space
+   */
+  private addSelectionHighlight(object: FrameData | NeonData, group: Group): void {
+    const size = this.getObjectSize(object);
+    const halfWidth = size.width / object.scale.x / 2 + SELECTION_MARGIN;
+    const halfHeight = size.height / object.scale.y / 2 + SELECTION_MARGIN;
+
+    const outline = new LineLoop(
+      new BufferGeometry().setFromPoints([
+        new Vector3(-halfWidth, -halfHeight, 0),
+        new Vector3(halfWidth, -halfHeight, 0),
+        new Vector3(halfWidth, halfHeight, 0),
+        new Vector3(-halfWidth, halfHeight, 0)
+      ]),
+      new LineBasicMaterial({ color: SELECTION_COLOR, depthTest: false, transparent: true })
+    );
+    outline.renderOrder = 1;
+
+    group.add(outline);
+    this.selectionHighlight = outline;
+  }
+
+  private removeSelectionHighlight(): void {
+    if (this.selectionHighlight) {
+      this.selectionHighlight.removeFromParent();
+      this.selectionHighlight.geometry.dispose();
+      this.selectionHighlight.material.dispose();
+      this.selectionHighlight = undefined;
+    }
+  }
+
   /**
    * Create text canvas for neon signs
    */
@@ -303,28 +670,12 @@ export class Renderer {
     return canvas;
   }
 
-  /**
-   * Load texture with optional progressive loading
-   */
-  private async loadTexture(url: string): Promise<Texture> {
-    return new Promise((resolve, reject) => {
-      this.textureLoader.load(
-        url,
-        (texture) => {
-          texture.encoding = sRGBEncoding;
-          resolve(texture);
-        },
-        undefined,
-        reject
-      );
-    });
-  }
-
   /**
    * Update animations and uniforms
    */
   update(): void {
     const time = this.clock.getElapsedTime();
+    this.placeholderMaterial.uniforms.time.value = time;
     
     // Update neon sign uniforms
     for (const neonGroup of this.neonObjects.values()) {
@@ -341,8 +692,222 @@ export class Renderer {
    * Render frame
    */
   render(): void {
+    const start = performance.now();
     this.update();
+    this.qualityOverlay?.update(
+      this.qualityMonitor.getTier(),
+      this.qualityMonitor.getFrameTime(),
+      this.getTextureStats(),
+      this.renderer.xr.isPresenting ? (this.xrFramebufferScale ?? 1) * this.xrViewportScale : undefined
+    );
     this.renderer.render(this.scene, this.camera);
+
+    // Takes effect from the next frame
+    const change = this.qualityMonitor.frame(start, performance.now() - start);
+    if (change) {
+      this.applyQualitySettings(this.qualityMonitor.getTier().settings);
+      this.onQualityChangedCallback?.(change);
+    }
+  }
+
+  /**
+   * Render into an XR session
+   *
+   * Three.js then poses the camera from the viewer each frame. Where views
+   * can be scaled, the framebuffer is sized for the highest tier and each
+   * tier renders to its share of it, so tier changes take effect within the
+   * session; otherwise the framebuffer is sized by the current tier's XR
+   * scale for the whole session. Quality tiers are budgeted against the
+   * session's frame rate while it reports one.
+   */
+  async setXRSession(session: XRSession): Promise<void> {
+    const tierScale = this.qualityMonitor.getTier().settings.xrFramebufferScale;
+    this.xrFramebufferScale = supportsViewportScale()
+      ? Math.max(...QUALITY_TIERS.map(tier => tier.settings.xrFramebufferScale))
+      : tierScale;
+    this.xrViewportScale = 1;
+    this.pendingViewportScale = supportsViewportScale() ? tierScale / this.xrFramebufferScale : undefined;
+
+    this.renderer.xr.enabled = true;
+    // The space the plane tracker reports poses in
+    this.renderer.xr.setReferenceSpaceType('local');
+    this.renderer.xr.setFramebufferScaleFactor(this.xrFramebufferScale);
+
+    this.qualityMonitor.setTargetFrameRate(session.frameRate);
+    const onFrameRateChange = () => this.qualityMonitor.setTargetFrameRate(session.frameRate);
+    session.addEventListener('frameratechange', onFrameRateChange);
+    session.addEventListener('end', () => {
+      session.removeEventListener('frameratechange', onFrameRateChange);
+      this.qualityMonitor.setTargetFrameRate(undefined);
+      this.xrViewportScale = 1;
+      this.pendingViewportScale = undefined;
+    }, { once: true });
+
+    await this.renderer.xr.setSession(session);
+  }
+
+  /**
+   * Call back every frame, from the XR session while one is bound (with its
+   * frame) or from the window otherwise; null stops the loop
+   */
+  setAnimationLoop(callback: ((frame?: XRFrame) => void) | null): void {
+    this.renderer.setAnimationLoop(callback ? (_time, frame?: XRFrame) => {
+      callback(frame);
+      this.scheduleViewportScale();
+    } : null);
+  }
+
+  /**
+   * Request a changed viewport scale at the start of the next XR frame
+   *
+   * A view's viewport is fixed once it is first read in a frame, which
+   * three.js does before calling the animation loop. Registered from within
+   * the loop, this callback runs ahead of three.js's own in the next frame.
+   */
+  private scheduleViewportScale(): void {
+    const session = this.renderer.xr.getSession();
+    const scale = this.pendingViewportScale;
+    if (!session || scale === undefined) return;
+
+    this.pendingViewportScale = undefined;
+    session.requestAnimationFrame((_time, frame) => {
+      const refSpace = this.renderer.xr.getReferenceSpace();
+      const layer = frame.session.renderState.baseLayer;
+      const pose = refSpace ? frame.getViewerPose(refSpace) : undefined;
+      if (!layer || !pose) {
+        this.pendingViewportScale ??= scale;
+        return;
+      }
+
+      for (const view of pose.views) {
+        // Views for a spectator camera keep their full size
+        if ((view as XRView & { isFirstPersonObserver?: boolean }).isFirstPersonObserver) continue;
+        view.requestViewportScale(scale);
+        // Reading the viewport applies the scale; it stays for the rest of the session
+        layer.getViewport(view);
+      }
+      this.xrViewportScale = scale;
+    });
+  }
+
+  /**
+   * Current quality tier; always 'high' without adaptive quality
+   */
+  getQualityTier(): QualityTierName {
+    return this.qualityMonitor.getTier().name;
+  }
+
+  /**
+   * Show or hide the on-screen quality readout
+   */
+  setQualityOverlayVisible(visible: boolean): void {
+    if (visible && !this.qualityOverlay) {
+      this.qualityOverlay = new QualityOverlay(this.renderer.domElement.parentElement ?? document.body);
+    } else if (!visible && this.qualityOverlay) {
+      this.qualityOverlay.dispose();
+      this.qualityOverlay = undefined;
+    }
+  }
+
+  /**
+   * Cached texture count and memory, and the GPU's compressed texture format
+   */
+  getTextureStats(): TextureStats {
+    return this.textureCache.getStats();
+  }
+
+  /**
+   * Switch glazing between physical transmission and a cheaper transparent layer
+   */
+  private setGlazingQuality(quality: 'full' | 'reduced'): void {
+    if (quality === this.glazingQuality) return;
+    this.glazingQuality = quality;
+
+    for (const frameGroup of this.frameObjects.values()) {
+      frameGroup.traverse(child => {
+        if (child instanceof Mesh && child.userData.glazing) {
+          this.applyGlazingQuality(child.material, child.userData.glazing);
+        }
+      });
+    }
+  }
+
+  /**
+   * Apply a quality tier's resolution, shadows, halos, glazing and texture size
+   */
+  private applyQualitySettings(settings: QualitySettings): void {
+    // The page's pixel ratio doesn't apply in an XR session; views are scaled there instead
+    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, settings.pixelRatio));
+    if (this.renderer.xr.isPresenting && this.xrFramebufferScale && supportsViewportScale()) {
+      this.pendingViewportScale = Math.min(1, settings.xrFramebufferScale / this.xrFramebufferScale);
+    }
+
+    if (this.config.rendering.shadowsEnabled) {
+      const light = this.directionalLight;
+      light.castShadow = settings.shadowMapSize > 0;
+      if (settings.shadowMapSize > 0 && light.shadow.mapSize.width !== settings.shadowMapSize) {
+        light.shadow.mapSize.set(settings.shadowMapSize, settings.shadowMapSize);
+        // Reallocated at the new size on the next render
+        light.shadow.map?.dispose();
+        light.shadow.map = null;
+      }
+    }
+
+    for (const neonGroup of this.neonObjects.values()) {
+      neonGroup.traverse(child => {
+        if (child.userData.halo) child.visible = settings.neonHalos;
+      });
+    }
+
+    this.setGlazingQuality(settings.glazing);
+    this.textureCache.setMaxTextureSize(settings.maxTextureSize);
+  }
+
+  /**
+   * Thin glazing sheet; reflections and glare follow the viewing angle through
+   * the material's Fresnel response
+   */
+  private createGlazingMaterial(glazing: Exclude<GlazingType, 'none'>): MeshPhysicalMaterial {
+    const preset = glazingPresets[glazing];
+    const material = new MeshPhysicalMaterial({
+      color: 0xffffff,
+      metalness: 0,
+      roughness: preset.roughness,
+      ior: preset.ior,
+      specularIntensity: preset.specularIntensity,
+      thickness: GLAZING_THICKNESS,
+      envMap: this.getEnvironmentMap(),
+      transparent: true,
+      depthWrite: false
+    });
+
+    this.applyGlazingQuality(material, glazing);
+    return material;
+  }
+
+  private applyGlazingQuality(material: MeshPhysicalMaterial, glazing: Exclude<GlazingType, 'none'>): void {
+    if (this.glazingQuality === 'full') {
+      material.transmission = 1;
+      material.opacity = 1;
+    } else {
+      material.transmission = 0;
+      material.opacity = glazingPresets[glazing].reducedOpacity;
+    }
+    material.needsUpdate = true;
+  }
+
+  /**
+   * Prefiltered room environment for reflections, created on first use
+   */
+  private getEnvironmentMap(): Texture | null {
+    if (!this.config.rendering.environmentLighting) return null;
+
+    if (!this.environmentMap) {
+      const room = new RoomEnvironment();
+      this.environmentMap = this.pmremGenerator.fromScene(room, 0.04).texture;
+      room.dispose();
+    }
+    return this.environmentMap;
   }
 
   /**
@@ -377,6 +942,42 @@ export class Renderer {
     }
   }
 
+  /**
+   * Update the detected-plane overlay
+   */
+  updatePlaneVisualization(planes: PlaneData[]): void {
+    this.planeVisualizer.updatePlanes(planes);
+  }
+
+  /**
+   * Remove all plane overlays and hide the reticle
+   */
+  clearPlaneVisualization(): void {
+    this.planeVisualizer.clear();
+  }
+
+  /**
+   * Update the placement reticle from the live hit-test result
+   */
+  updateReticle(hit: HitPose | null): void {
+    this.planeVisualizer.updateReticle(hit);
+  }
+
+  /**
+   * Move objects to the world poses resolved from their anchors
+   */
+  applyObjectPoses(poses: Map<string, Matrix4>): void {
+    const scale = new Vector3();
+
+    for (const [id, matrix] of poses.entries()) {
+      const group = this.frameObjects.get(id) ?? this.neonObjects.get(id);
+      if (group) {
+        // Anchor poses carry no scale - keep the object's own
+        matrix.decompose(group.position, group.quaternion, scale);
+      }
+    }
+  }
+
   /**
    * Remove AR object
    */
@@ -385,6 +986,9 @@ export class Renderer {
     const object = objects.get(id);
     
     if (object) {
+      if (this.selectionHighlight?.parent === object) {
+        this.removeSelectionHighlight();
+      }
       this.scene.remove(object);
       objects.delete(id);
       
@@ -393,15 +997,36 @@ export class Renderer {
         if (child instanceof Mesh) {
           child.geometry.dispose();
           if (Array.isArray(child.material)) {
-            child.material.forEach(material => material.dispose());
+            child.material.forEach(material => this.disposeMaterial(material));
           } else {
-            child.material.dispose();
+            this.disposeMaterial(child.material);
           }
         }
       });
     }
   }
 
+  /**
+   * Dispose a material along with the textures it owns
+   */
+  private disposeMaterial(material: Material): void {
+    if (material.userData.shared) return;
+
+    if (material instanceof MeshStandardMaterial) {
+      // Cached artwork goes back to the cache; other maps are owned by the material
+      if (material.map && !this.textureCache.release(material.map)) {
+        material.map.dispose();
+      }
+    } else if (material instanceof ShaderMaterial) {
+      for (const uniform of Object.values(material.uniforms)) {
+        if (uniform.value instanceof Texture) {
+          uniform.value.dispose();
+        }
+      }
+    }
+    material.dispose();
+  }
+
   /**
    * Handle window resize
    */
@@ -415,6 +1040,20 @@ export class Renderer {
     this.renderer.setSize(width, height);
   }
 
+  /**
+   * Convert canvas pixel coordinates to normalized device coordinates (-1..1, +y up)
+   */
+  toNormalizedCoordinates(x: number, y: number): Vector2 {
+    const canvas = this.renderer.domElement;
+    const width = canvas.clientWidth || window.innerWidth;
+    const height = canvas.clientHeight || window.innerHeight;
+
+    return new Vector2(
+      (x / width) * 2 - 1,
+      -(y / height) * 2 + 1
+    );
+  }
+
   /**
    * Get WebGL renderer
    */
@@ -440,22 +1079,39 @@ export class Renderer {
    * Dispose resources
    */
   dispose(): void {
-    // Dispose all objects
-    for (const frameGroup of this.frameObjects.values()) {
-      this.scene.remove(frameGroup);
+    // Dispose all objects, releasing their textures
+    for (const id of Array.from(this.frameObjects.keys())) {
+      this.removeObject(id, ARMode.FRAME);
     }
     
-    for (const neonGroup of this.neonObjects.values()) {
-      this.scene.remove(neonGroup);
+    for (const id of Array.from(this.neonObjects.keys())) {
+      this.removeObject(id, ARMode.NEON);
     }
     
-    this.frameObjects.clear();
-    this.neonObjects.clear();
+    this.textureCache.dispose();
+    
+    this.planeVisualizer.dispose();
+    this.measurementOverlay.dispose();
+    this.scene.remove(this.snapGuides);
+    this.snapGuides.geometry.dispose();
+    this.snapGuides.material.dispose();
     
     // Dispose renderer
+    this.environmentMap?.dispose();
+    this.placeholderMaterial.dispose();
+    this.errorMaterial?.map?.dispose();
+    this.errorMaterial?.dispose();
+    this.qualityOverlay?.dispose();
     this.renderer.dispose();
     this.pmremGenerator.dispose();
     
     window.removeEventListener('resize', this.onResize.bind(this));
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Whether XR views can render to part of the framebuffer
+ */
+function supportsViewportScale(): boolean {
+  return typeof XRView !== 'undefined' && 'requestViewportScale' in XRView.prototype;
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { Vector3, Euler, Matrix4, Quaternion } from 'three';
+import { serializeScene, parseScene, deserializeObject, getArtworkHashes, SCENE_SCHEMA_VERSION } from './SceneSerializer';
+import { ARMode, FrameData, NeonData } from '../types';
+
+function frame(overrides: Partial<FrameData> = {}): FrameData {
+  return {
+    id: 'frame_1',
+    type: ARMode.FRAME,
+    position: new Vector3(0.5, 1.4, -2),
+    rotation: new Euler(0, Math.PI / 6, 0, 'YXZ'),
+    scale: new Vector3(1, 1, 1),
+    isPlaced: true,
+    planeId: 'plane_3',
+    lastUpdate: 1000,
+    artworkUrl: 'https://example.com/art.jpg',
+    frameStyle: 'modern',
+    frameColor: '#000000',
+    matColor: '#ffffff',
+    matBorder: { top: 0.05, right: 0.05, bottom: 0.07, left: 0.05 },
+    width: 0.4,
+    height: 0.6,
+    ...overrides
+  };
+}
+
+const neon: NeonData = {
+  id: 'neon_1',
+  type: ARMode.NEON,
+  position: new Vector3(-1, 1.8, -2.5),
+  rotation: new Euler(0.1, 0, 0),
+  scale: new Vector3(2, 2, 2),
+  isPlaced: true,
+  lastUpdate: 1000,
+  text: 'Welcome',
+  color: '#ff00ff',
+  glowIntensity: 2,
+  fontSize: 0.2,
+  fontFamily: 'Arial'
+};
+
+describe('SceneSerializer', () => {
+  it('round-trips objects through JSON', () => {
+    const scene = parseScene(JSON.stringify(serializeScene([frame(), neon])));
+    const [restoredFrame, restoredNeon] = scene.objects.map(data => deserializeObject(data)) as [FrameData, NeonData];
+
+    expect(scene.version).toBe(SCENE_SCHEMA_VERSION);
+    expect(restoredFrame.position.equals(frame().position)).toBe(true);
+    expect(restoredFrame.rotation.equals(frame().rotation)).toBe(true);
+    expect(restoredFrame.matBorder).toEqual(frame().matBorder);
+    expect(restoredFrame.artworkUrl).toBe(frame().artworkUrl);
+    expect(restoredNeon.scale.equals(neon.scale)).toBe(true);
+    expect(restoredNeon.text).toBe('Welcome');
+  });
+
+  it('drops session-specific state', () => {
+    const scene = serializeScene([frame({ isOrphaned: true })]);
+    const restored = deserializeObject(scene.objects[0]);
+
+    expect(restored.planeId).toBeUndefined();
+    expect(restored.isOrphaned).toBeUndefined();
+  });
+
+  it('restores wall-relative objects onto a wall that moved', () => {
+    const wall = new Matrix4().makeTranslation(0, 0, -2);
+    const scene = serializeScene([frame()], wall);
+
+    // The same wall seen in a later session, turned and shifted
+    const turn = new Quaternion().setFromAxisAngle(new Vector3(0, 1, 0), Math.PI / 2);
+    const newWall = new Matrix4().compose(new Vector3(3, 0, 1), turn, new Vector3(1, 1, 1));
+    const restored = deserializeObject(scene.objects[0], newWall);
+
+    const expected = newWall.clone().multiply(wall.clone().invert())
+      .multiply(new Matrix4().compose(frame().position, new Quaternion().setFromEuler(frame().rotation), new Vector3(1, 1, 1)));
+    const position = new Vector3();
+    const quaternion = new Quaternion();
+    expected.decompose(position, quaternion, new Vector3());
+
+    expect(restored.position.distanceTo(position)).toBeLessThan(1e-9);
+    expect(new Quaternion().setFromEuler(restored.rotation).angleTo(quaternion)).toBeLessThan(1e-6);
+  });
+
+  it('keeps uploaded artwork by hash instead of its object URL', () => {
+    const scene = serializeScene([
+      frame({ artworkUrl: 'blob:https://example.com/1234', artworkHash: 'abc' }),
+      frame({ id: 'frame_2' })
+    ]);
+
+    expect(scene.objects[0].type === ARMode.FRAME && scene.objects[0].artworkUrl).toBe('');
+    expect(getArtworkHashes(scene)).toEqual(new Set(['abc']));
+  });
+
+  it('rejects malformed and newer scenes', () => {
+    expect(() => parseScene('{}')).toThrow('missing version or objects');
+    expect(() => parseScene({ version: SCENE_SCHEMA_VERSION + 1, savedAt: 0, objects: [] })).toThrow('newer');
+
+    const scene = serializeScene([frame()]);
+    scene.objects[0].position = { x: NaN, y: 0, z: 0 };
+    expect(() => parseScene(scene)).toThrow('malformed transform');
+  });
+
+  it.each([
+    ['width', 0],
+    ['width', undefined],
+    ['height', -0.6],
+    ['height', Infinity],
+    ['artworkUrl', ''],
+    ['artworkUrl', 42],
+    ['frameStyle', '']
+  ])('rejects a frame with %s %s', (field, value) => {
+    const data = JSON.parse(JSON.stringify(serializeScene([frame()])));
+    data.objects[0][field] = value;
+
+    expect(() => parseScene(data)).toThrow(`malformed ${field}`);
+  });
+
+  it.each([
+    ['text', ''],
+    ['text', null],
+    ['fontSize', 0],
+    ['fontSize', '0.2'],
+    ['color', '']
+  ])('rejects a neon sign with %s %s', (field, value) => {
+    const data = JSON.parse(JSON.stringify(serializeScene([neon])));
+    data.objects[0][field] = value;
+
+    expect(() => parseScene(data)).toThrow(`malformed ${field}`);
+  });
+
+  it('accepts uploaded artwork without a URL', () => {
+    const scene = serializeScene([frame({ artworkUrl: 'blob:https://example.com/1234', artworkHash: 'abc' })]);
+
+    expect(() => parseScene(JSON.stringify(scene))).not.toThrow();
+  });
+});
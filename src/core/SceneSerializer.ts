@@ -0,0 +1,172 @@
+/**
+ * SceneSerializer - Converts placed objects to and from the versioned scene JSON schema
+ */
+
+import { Vector3, Euler, EulerOrder, Matrix4, Quaternion } from 'three';
+import {
+  ARMode,
+  FrameData,
+  NeonData,
+  SerializedARObject,
+  SerializedEuler,
+  SerializedScene,
+  SerializedVector3
+} from '../types';
+
+/** Bump whenever the serialized shape changes, and migrate older versions in parseScene */
+export const SCENE_SCHEMA_VERSION = 1;
+
+/**
+ * Serialize placed objects into a scene
+ *
+ * @param reference - World transform of the reference wall; when given, each
+ *   object also stores its transform relative to that wall
+ */
+export function serializeScene(objects: (FrameData | NeonData)[], reference?: Matrix4): SerializedScene {
+  const toWall = reference?.clone().invert();
+
+  return {
+    version: SCENE_SCHEMA_VERSION,
+    savedAt: Date.now(),
+    objects: objects.map(object => serializeObject(object, toWall))
+  };
+}
+
+/**
+ * Parse and validate a scene from JSON text or an already-decoded object
+ */
+export function parseScene(input: string | unknown): SerializedScene {
+  const scene = (typeof input === 'string' ? JSON.parse(input) : input) as SerializedScene;
+
+  if (!scene || typeof scene !== 'object' || typeof scene.version !== 'number' || !Array.isArray(scene.objects)) {
+    throw new Error('Invalid scene: missing version or objects');
+  }
+  if (scene.version > SCENE_SCHEMA_VERSION) {
+    throw new Error(`Scene version ${scene.version} is newer than supported version ${SCENE_SCHEMA_VERSION}`);
+  }
+
+  for (const object of scene.objects) {
+    if (!object?.id || (object.type !== ARMode.FRAME && object.type !== ARMode.NEON)) {
+      throw new Error('Invalid scene: object without id or type');
+    }
+    if (!isVector3(object.position) || !isVector3(object.rotation) || !isVector3(object.scale)) {
+      throw new Error(`Invalid scene: object ${object.id} has a malformed transform`);
+    }
+
+    const invalidField = findInvalidField(object);
+    if (invalidField) {
+      throw new Error(`Invalid scene: object ${object.id} has a missing or malformed ${invalidField}`);
+    }
+  }
+
+  return scene;
+}
+
+/**
+ * Rebuild a placed object from its serialized form
+ *
+ * @param reference - World transform of the wall the scene is restored onto;
+ *   objects saved relative to a wall are placed relative to this one
+ */
+export function deserializeObject(data: SerializedARObject, reference?: Matrix4): FrameData | NeonData {
+  const { position, rotation, scale, wallTransform, ...fields } = data;
+
+  const object = {
+    ...fields,
+    position: new Vector3(position.x, position.y, position.z),
+    rotation: new Euler(rotation.x, rotation.y, rotation.z, (rotation.order || 'XYZ') as EulerOrder),
+    scale: new Vector3(scale.x, scale.y, scale.z),
+    // Session-specific state is re-established on restore
+    planeId: undefined,
+    isOrphaned: undefined,
+    lastUpdate: Date.now()
+  } as FrameData | NeonData;
+
+  if (reference && wallTransform?.length === 16) {
+    const matrix = reference.clone().multiply(new Matrix4().fromArray(wallTransform));
+    const quaternion = new Quaternion();
+    matrix.decompose(object.position, quaternion, new Vector3());
+    object.rotation.setFromQuaternion(quaternion);
+  }
+
+  return object;
+}
+
+/**
+ * Content hashes of the uploaded artwork a scene's frames show
+ */
+export function getArtworkHashes(scene: SerializedScene): Set<string> {
+  const hashes = new Set<string>();
+  for (const object of scene.objects) {
+    if (object.type === ARMode.FRAME && object.artworkHash) hashes.add(object.artworkHash);
+  }
+  return hashes;
+}
+
+/**
+ * Serialize one object, with Three.js types written out field by field
+ */
+function serializeObject(object: FrameData | NeonData, toWall?: Matrix4): SerializedARObject {
+  const { position, rotation, scale, ...fields } = object;
+
+  const serialized = {
+    ...fields,
+    position: serializeVector3(position),
+    rotation: serializeEuler(rotation),
+    scale: serializeVector3(scale)
+  } as SerializedARObject;
+
+  // Object URLs die with the page; uploaded artwork is restored from its hash
+  if (serialized.type === ARMode.FRAME && serialized.artworkHash && serialized.artworkUrl.startsWith('blob:')) {
+    serialized.artworkUrl = '';
+  }
+
+  if (toWall) {
+    const matrix = new Matrix4().compose(position, new Quaternion().setFromEuler(rotation), new Vector3(1, 1, 1));
+    serialized.wallTransform = toWall.clone().multiply(matrix).toArray();
+  }
+
+  return serialized;
+}
+
+function serializeVector3(vector: Vector3): SerializedVector3 {
+  return { x: vector.x, y: vector.y, z: vector.z };
+}
+
+function serializeEuler(euler: Euler): SerializedEuler {
+  return { x: euler.x, y: euler.y, z: euler.z, order: euler.order };
+}
+
+/**
+ * First field of an object, by its type, that can't be rendered, if any
+ *
+ * Uploaded artwork may have an empty URL, as it is restored from its hash.
+ */
+function findInvalidField(object: SerializedARObject): string | null {
+  if (object.type === ARMode.FRAME) {
+    if (!isPositive(object.width)) return 'width';
+    if (!isPositive(object.height)) return 'height';
+    if (!isNonEmptyString(object.artworkUrl) && !(typeof object.artworkUrl === 'string' && isNonEmptyString(object.artworkHash))) {
+      return 'artworkUrl';
+    }
+    if (!isNonEmptyString(object.frameStyle)) return 'frameStyle';
+  } else {
+    if (!isNonEmptyString(object.text)) return 'text';
+    if (!isPositive(object.fontSize)) return 'fontSize';
+    if (!isNonEmptyString(object.color)) return 'color';
+  }
+  return null;
+}
+
+function isPositive(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isNonEmptyString(value: unknown): boolean {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function isVector3(value: unknown): value is SerializedVector3 {
+  const vector = value as SerializedVector3;
+  return !!vector && [vector.x, vector.y, vector.z].every(n => typeof n === 'number' && Number.isFinite(n));
+}
@@ -0,0 +1,176 @@
+/**
+ * SceneStore - Saves scenes to IndexedDB under named slots
+ *
+ * Uploaded artwork images are stored alongside by content hash, once each
+ * however many scenes use them, and deleted when no saved scene does. Saves
+ * and deletes each run in one transaction over both stores, so concurrent
+ * ones (e.g. an autosave racing a manual save) can't prune each other's images.
+ */
+
+import { SavedSceneInfo, SerializedScene } from '../types';
+import { getArtworkHashes } from './SceneSerializer';
+
+const DB_NAME = 'framerly-ar';
+const DB_VERSION = 2;
+const STORE_NAME = 'scenes';
+const ARTWORK_STORE_NAME = 'artwork';
+
+interface SceneRecord {
+  slot: string;
+  scene: SerializedScene;
+}
+
+interface ArtworkRecord {
+  hash: string;
+  blob: Blob;
+}
+
+export class SceneStore {
+  private dbPromise?: Promise<IDBDatabase>;
+
+  /**
+   * Save a scene, replacing whatever was in the slot
+   *
+   * @param artwork - Images of the uploaded artwork the scene uses, by content hash
+   */
+  async save(slot: string, scene: SerializedScene, artwork: Map<string, Blob> = new Map()): Promise<void> {
+    const transaction = await this.transaction('readwrite');
+    const artworkStore = transaction.objectStore(ARTWORK_STORE_NAME);
+
+    for (const [hash, blob] of artwork) {
+      const existing = await this.request(artworkStore.getKey(hash));
+      if (existing === undefined) {
+        await this.request(artworkStore.put({ hash, blob } as ArtworkRecord));
+      }
+    }
+    await this.request(transaction.objectStore(STORE_NAME).put({ slot, scene } as SceneRecord));
+    await this.pruneArtwork(transaction);
+    await this.complete(transaction);
+  }
+
+  /**
+   * Load the scene in a slot, or null if the slot is empty
+   */
+  async load(slot: string): Promise<SerializedScene | null> {
+    const store = await this.getStore('readonly');
+    const record = await this.request<SceneRecord | undefined>(store.get(slot));
+    return record?.scene ?? null;
+  }
+
+  /**
+   * List saved slots, most recent first
+   */
+  async list(): Promise<SavedSceneInfo[]> {
+    const store = await this.getStore('readonly');
+    const records = await this.request<SceneRecord[]>(store.getAll());
+
+    return records
+      .map(record => ({
+        slot: record.slot,
+        savedAt: record.scene.savedAt,
+        objectCount: record.scene.objects.length
+      }))
+      .sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  /**
+   * Delete a slot
+   */
+  async delete(slot: string): Promise<void> {
+    const transaction = await this.transaction('readwrite');
+    await this.request(transaction.objectStore(STORE_NAME).delete(slot));
+    await this.pruneArtwork(transaction);
+    await this.complete(transaction);
+  }
+
+  /**
+   * Load a stored artwork image, or null if none has the hash
+   */
+  async loadArtwork(hash: string): Promise<Blob | null> {
+    const store = await this.getStore('readonly', ARTWORK_STORE_NAME);
+    const record = await this.request<ArtworkRecord | undefined>(store.get(hash));
+    return record?.blob ?? null;
+  }
+
+  /**
+   * Delete stored artwork images no saved scene uses, within a transaction
+   * over both stores
+   */
+  private async pruneArtwork(transaction: IDBTransaction): Promise<void> {
+    const scenes = await this.request<SceneRecord[]>(transaction.objectStore(STORE_NAME).getAll());
+    const used = new Set(scenes.flatMap(({ scene }) => Array.from(getArtworkHashes(scene))));
+
+    const store = transaction.objectStore(ARTWORK_STORE_NAME);
+    const hashes = await this.request(store.getAllKeys());
+    await Promise.all(hashes
+      .filter(hash => !used.has(hash as string))
+      .map(hash => this.request(store.delete(hash))));
+  }
+
+  /**
+   * Open the database once and reuse the connection
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (!('indexedDB' in window)) {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'slot' });
+          }
+          if (!request.result.objectStoreNames.contains(ARTWORK_STORE_NAME)) {
+            request.result.createObjectStore(ARTWORK_STORE_NAME, { keyPath: 'hash' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('Failed to open scene database'));
+      });
+
+      // Allow a later call to retry after a failed open
+      this.dbPromise.catch(() => {
+        this.dbPromise = undefined;
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private async getStore(mode: IDBTransactionMode, name = STORE_NAME): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  /**
+   * Start a transaction over both scenes and artwork
+   */
+  private async transaction(mode: IDBTransactionMode): Promise<IDBTransaction> {
+    const db = await this.open();
+    return db.transaction([STORE_NAME, ARTWORK_STORE_NAME], mode);
+  }
+
+  /**
+   * Wait for a transaction to commit
+   */
+  private complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error ?? new Error('Scene database transaction failed'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('Scene database transaction aborted'));
+    });
+  }
+
+  /**
+   * Wrap an IDBRequest in a Promise
+   */
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Scene database request failed'));
+    });
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Snapping - Alignment snapping between objects on a wall
+ *
+ * Works in wall space (u right, v up, meters). Each axis snaps independently
+ * to the closest candidate within the threshold: neighbour edges and centers,
+ * equal spacing with neighbours, the hanging height and the wall's center.
+ */
+
+import { Vector2 } from 'three';
+
+export interface WallBox {
+  // Center in wall space
+  u: number;
+  v: number;
+  width: number;
+  height: number;
+}
+
+export interface SnapContext {
+  neighbours: WallBox[];
+  // Wall-space range of the wall, for the center line and guide extents
+  minU: number;
+  maxU: number;
+  minV: number;
+  maxV: number;
+  // Wall-space v of the hanging height (object center), if the floor is known
+  hangingV: number | null;
+  threshold: number;
+}
+
+export interface SnapGuide {
+  from: Vector2;
+  to: Vector2;
+}
+
+export interface SnapResult {
+  u: number;
+  v: number;
+  guides: SnapGuide[];
+}
+
+type Axis = 'u' | 'v';
+
+interface SnapCandidate {
+  // Snapped center along the axis
+  value: number;
+  distance: number;
+  // Builds guides once the final position on both axes is known
+  guides: (target: WallBox) => SnapGuide[];
+}
+
+/**
+ * Snap a box's center to its neighbours and the wall
+ */
+export function snapToWall(target: WallBox, context: SnapContext): SnapResult {
+  const snapU = findBestCandidate(getCandidates(target, context, 'u'), context.threshold);
+  const snapV = findBestCandidate(getCandidates(target, context, 'v'), context.threshold);
+
+  const snapped: WallBox = {
+    ...target,
+    u: snapU?.value ?? target.u,
+    v: snapV?.value ?? target.v
+  };
+
+  return {
+    u: snapped.u,
+    v: snapped.v,
+    guides: [...(snapU?.guides(snapped) ?? []), ...(snapV?.guides(snapped) ?? [])]
+  };
+}
+
+function findBestCandidate(candidates: SnapCandidate[], threshold: number): SnapCandidate | null {
+  let best: SnapCandidate | null = null;
+  for (const candidate of candidates) {
+    if (candidate.distance <= threshold && (!best || candidate.distance < best.distance)) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+function getCandidates(target: WallBox, context: SnapContext, axis: Axis): SnapCandidate[] {
+  const candidates: SnapCandidate[] = [];
+  const center = target[axis];
+  const half = size(target, axis) / 2;
+
+  const add = (value: number, guides: (snapped: WallBox) => SnapGuide[]) => {
+    candidates.push({ value, distance: Math.abs(value - center), guides });
+  };
+
+  // Edges and centers of each neighbour: target edge or center on neighbour edge or center
+  for (const neighbour of context.neighbours) {
+    const lines = [neighbour[axis] - size(neighbour, axis) / 2, neighbour[axis], neighbour[axis] + size(neighbour, axis) / 2];
+    for (const line of lines) {
+      for (const offset of [-half, 0, half]) {
+        add(line - offset, snapped => [alignmentGuide(axis, line, [snapped, neighbour])]);
+      }
+    }
+  }
+
+  addEqualSpacingCandidates(target, context.neighbours, axis, add);
+
+  if (axis === 'u') {
+    const wallCenter = (context.minU + context.maxU) / 2;
+    add(wallCenter, () => [{ from: new Vector2(wallCenter, context.minV), to: new Vector2(wallCenter, context.maxV) }]);
+  } else if (context.hangingV !== null) {
+    const hangingV = context.hangingV;
+    add(hangingV, () => [{ from: new Vector2(context.minU, hangingV), to: new Vector2(context.maxU, hangingV) }]);
+  }
+
+  return candidates;
+}
+
+/**
+ * Positions that repeat the gap between two neighbours in the same row
+ * (or column), either extending the sequence or centering between them
+ */
+function addEqualSpacingCandidates(
+  target: WallBox,
+  neighbours: WallBox[],
+  axis: Axis,
+  add: (value: number, guides: (snapped: WallBox) => SnapGuide[]) => void
+): void {
+  const other: Axis = axis === 'u' ? 'v' : 'u';
+  const half = size(target, axis) / 2;
+
+  // Neighbours sharing the target's row (or column) in the other axis
+  const inLine = neighbours
+    .filter(box => Math.abs(box[other] - target[other]) < (size(box, other) + size(target, other)) / 2)
+    .sort((a, b) => a[axis] - b[axis]);
+
+  for (let i = 0; i + 1 < inLine.length; i++) {
+    const a = inLine[i];
+    const b = inLine[i + 1];
+    const aEnd = a[axis] + size(a, axis) / 2;
+    const bStart = b[axis] - size(b, axis) / 2;
+    const gap = bStart - aEnd;
+    if (gap <= 0) continue;
+
+    const bEnd = b[axis] + size(b, axis) / 2;
+    const aStart = a[axis] - size(a, axis) / 2;
+
+    // Continue the sequence after b, or before a
+    add(bEnd + gap + half, snapped => [
+      gapGuide(axis, aEnd, bStart, snapped), gapGuide(axis, bEnd, snapped[axis] - half, snapped)
+    ]);
+    add(aStart - gap - half, snapped => [
+      gapGuide(axis, snapped[axis] + half, aStart, snapped), gapGuide(axis, aEnd, bStart, snapped)
+    ]);
+
+    // Equal gaps on both sides when the target fits between a and b
+    if (gap > half * 2) {
+      add((aEnd + bStart) / 2, snapped => [
+        gapGuide(axis, aEnd, snapped[axis] - half, snapped), gapGuide(axis, snapped[axis] + half, bStart, snapped)
+      ]);
+    }
+  }
+}
+
+/**
+ * Line along which boxes are aligned, spanning all of them
+ */
+function alignmentGuide(axis: Axis, line: number, boxes: WallBox[]): SnapGuide {
+  const other: Axis = axis === 'u' ? 'v' : 'u';
+  const start = Math.min(...boxes.map(box => box[other] - size(box, other) / 2));
+  const end = Math.max(...boxes.map(box => box[other] + size(box, other) / 2));
+  return axis === 'u'
+    ? { from: new Vector2(line, start), to: new Vector2(line, end) }
+    : { from: new Vector2(start, line), to: new Vector2(end, line) };
+}
+
+/**
+ * Segment marking a gap along the axis, drawn through the target's center
+ */
+function gapGuide(axis: Axis, start: number, end: number, target: WallBox): SnapGuide {
+  return axis === 'u'
+    ? { from: new Vector2(start, target.v), to: new Vector2(end, target.v) }
+    : { from: new Vector2(target.u, start), to: new Vector2(target.u, end) };
+}
+
+function size(box: WallBox, axis: Axis): number {
+  return axis === 'u' ? box.width : box.height;
+}
@@ -0,0 +1,248 @@
+/**
+ * TextureCache - Shared, reference-counted artwork textures within a memory budget
+ *
+ * Frames showing the same image share one texture. Textures no frame uses are
+ * kept for reuse until the estimated GPU memory goes over budget, then evicted
+ * least recently used first. Low-memory devices get half the budget and
+ * smaller textures.
+ */
+
+import { Texture, CompressedTexture, WebGLRenderer } from 'three';
+import { TexturePipeline, TextureLoadHandlers, LoadedTexture, disposeBitmapTexture } from './TexturePipeline';
+import { TextureCacheOptions, TextureStats } from '../types';
+
+/** Devices reporting this much memory or less, in GB, count as low-memory */
+const LOW_MEMORY_DEVICE_GB = 4;
+const LOW_MEMORY_MAX_TEXTURE_SIZE = 2048;
+
+interface CacheEntry {
+  url: string;
+  promise: Promise<LoadedTexture>;
+  loaded?: LoadedTexture;
+  bytes: number;
+  refCount: number;
+  lastUsed: number;
+  // Progress and preview listeners of every request waiting on the load
+  progressListeners: Set<(progress: number | null) => void>;
+  previewListeners: Set<(texture: Texture) => void>;
+  // Shown by waiting requests until the load settles, then disposed
+  preview?: Texture;
+}
+
+export class TextureCache {
+  private pipeline: TexturePipeline;
+  private entries: Map<string, CacheEntry> = new Map();
+  private urlsByTexture: Map<Texture, string> = new Map();
+  private previewTextures: Set<Texture> = new Set();
+  private budgetBytes: number;
+  // Device and configured limit, and the current size within it
+  private textureSizeLimit: number;
+  private maxTextureSize: number;
+
+  constructor(options: TextureCacheOptions, renderer: WebGLRenderer) {
+    this.pipeline = new TexturePipeline(renderer);
+
+    const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+    const isLowMemory = deviceMemory !== undefined && deviceMemory <= LOW_MEMORY_DEVICE_GB;
+
+    this.budgetBytes = options.memoryBudgetMB * 1024 * 1024 * (isLowMemory ? 0.5 : 1);
+    this.textureSizeLimit = Math.min(
+      options.maxTextureSize,
+      renderer.capabilities.maxTextureSize,
+      isLowMemory ? LOW_MEMORY_MAX_TEXTURE_SIZE : Infinity
+    );
+    this.maxTextureSize = this.textureSizeLimit;
+  }
+
+  /**
+   * Get the texture for an image, loading it if it isn't cached
+   *
+   * Each successful call must be matched by a `release`. Every request
+   * waiting on the load gets progress and the shared preview, which the cache
+   * disposes once the load settles; release it like a full texture.
+   */
+  async acquire(url: string, handlers: TextureLoadHandlers = {}, previewUrl?: string): Promise<LoadedTexture> {
+    const entry = this.entries.get(url) ?? this.load(url, previewUrl);
+    if (!entry.loaded) {
+      if (handlers.onProgress) entry.progressListeners.add(handlers.onProgress);
+      if (handlers.onPreview) {
+        entry.previewListeners.add(handlers.onPreview);
+        if (entry.preview) handlers.onPreview(entry.preview);
+      }
+    }
+
+    // Counted before the load finishes, so it can't be evicted on arrival
+    entry.refCount++;
+    try {
+      const result = await entry.promise;
+      entry.lastUsed = performance.now();
+      return result;
+    } catch (error) {
+      entry.refCount--;
+      throw error;
+    }
+  }
+
+  /**
+   * Give back a texture from `acquire`, or a preview it handed out
+   *
+   * @returns False if the texture isn't from this cache
+   */
+  release(texture: Texture): boolean {
+    // Previews aren't counted; they're disposed when their load settles
+    if (this.previewTextures.has(texture)) return true;
+
+    const url = this.urlsByTexture.get(texture);
+    if (url === undefined) return false;
+
+    const entry = this.entries.get(url);
+    if (entry) {
+      entry.refCount = Math.max(0, entry.refCount - 1);
+      entry.lastUsed = performance.now();
+      this.evict();
+    }
+    return true;
+  }
+
+  /**
+   * Change the longest side of textures loaded from now on, within the
+   * configured limit. Unused textures larger than that are dropped rather
+   * than reused; textures in use keep their size.
+   */
+  setMaxTextureSize(size: number): void {
+    this.maxTextureSize = Math.min(size, this.textureSizeLimit);
+
+    for (const entry of Array.from(this.entries.values())) {
+      if (entry.loaded && entry.refCount === 0 && longestSide(entry.loaded.texture) > this.maxTextureSize) {
+        this.disposeEntry(entry);
+        this.entries.delete(entry.url);
+      }
+    }
+  }
+
+  /**
+   * Number of cached textures, their estimated GPU memory, and the format
+   * KTX2 images are transcoded to
+   */
+  getStats(): TextureStats {
+    let bytes = 0;
+    let textures = 0;
+    for (const entry of this.entries.values()) {
+      if (entry.loaded) {
+        bytes += entry.bytes;
+        textures++;
+      }
+    }
+    return { textures, bytes, budgetBytes: this.budgetBytes, compressedFormat: this.pipeline.getCompressedFormat() };
+  }
+
+  /**
+   * Dispose every cached texture, whether in use or not
+   */
+  dispose(): void {
+    for (const entry of this.entries.values()) {
+      this.disposeEntry(entry);
+      this.disposePreview(entry);
+    }
+    this.entries.clear();
+    this.urlsByTexture.clear();
+    this.pipeline.dispose();
+  }
+
+  private load(url: string, previewUrl?: string): CacheEntry {
+    const promise = this.pipeline.load(url, {
+      onProgress: progress => entry.progressListeners.forEach(listener => listener(progress)),
+      onPreview: texture => {
+        // A later preview replaces an earlier one
+        this.disposePreview(entry);
+        entry.preview = texture;
+        this.previewTextures.add(texture);
+        entry.previewListeners.forEach(listener => listener(texture));
+      }
+    }, { previewUrl, maxSize: this.maxTextureSize }).then(loaded => {
+      entry.loaded = loaded;
+      entry.bytes = estimateBytes(loaded.texture);
+      this.settle(entry);
+      this.urlsByTexture.set(loaded.texture, url);
+      this.evict();
+      return loaded;
+    }, error => {
+      this.settle(entry);
+      // Let a later request try again
+      this.entries.delete(url);
+      throw error;
+    });
+
+    const entry: CacheEntry = {
+      url,
+      promise,
+      bytes: 0,
+      refCount: 0,
+      lastUsed: performance.now(),
+      progressListeners: new Set(),
+      previewListeners: new Set()
+    };
+    this.entries.set(url, entry);
+    return entry;
+  }
+
+  /**
+   * Drop a finished or failed load's listeners and preview
+   */
+  private settle(entry: CacheEntry): void {
+    entry.progressListeners.clear();
+    entry.previewListeners.clear();
+    this.disposePreview(entry);
+  }
+
+  private disposePreview(entry: CacheEntry): void {
+    if (!entry.preview) return;
+    this.previewTextures.delete(entry.preview);
+    disposeBitmapTexture(entry.preview);
+    entry.preview = undefined;
+  }
+
+  /**
+   * Evict unused textures, least recently used first, until within budget
+   */
+  private evict(): void {
+    let { bytes } = this.getStats();
+    if (bytes <= this.budgetBytes) return;
+
+    const unused = Array.from(this.entries.values())
+      .filter(entry => entry.loaded && entry.refCount === 0)
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+
+    for (const entry of unused) {
+      if (bytes <= this.budgetBytes) break;
+      this.disposeEntry(entry);
+      this.entries.delete(entry.url);
+      bytes -= entry.bytes;
+    }
+  }
+
+  private disposeEntry(entry: CacheEntry): void {
+    if (!entry.loaded) return;
+
+    const { texture } = entry.loaded;
+    this.urlsByTexture.delete(texture);
+    disposeBitmapTexture(texture);
+  }
+}
+
+/**
+ * Size of a compressed texture's mip levels, or RGBA8 with a full mipmap chain
+ */
+function estimateBytes(texture: Texture): number {
+  if (texture instanceof CompressedTexture) {
+    return (texture.mipmaps as { data: ArrayBufferView }[]).reduce((sum, level) => sum + level.data.byteLength, 0);
+  }
+
+  const image = texture.image as { width: number; height: number };
+  return image.width * image.height * 4 * 4 / 3;
+}
+
+function longestSide(texture: Texture): number {
+  const image = texture.image as { width: number; height: number };
+  return Math.max(image.width, image.height);
+}
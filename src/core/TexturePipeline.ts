@@ -0,0 +1,281 @@
+/**
+ * TexturePipeline - Progressive image texture loading
+ *
+ * Downloads an image with progress reports, shows a small preview while the
+ * full-resolution image decodes, then hands over the full texture. A separate
+ * preview URL, when given, is loaded alongside the full image. Images larger
+ * than the requested maximum size are downscaled after decoding.
+ *
+ * KTX2 (Basis Universal) images are transcoded to the best compressed format
+ * the GPU supports, or to RGBA where it supports none, using the transcoder
+ * bundled with the app. Their largest mip levels are dropped to fit the
+ * maximum size.
+ */
+
+import { Texture, TextureLoader, CompressedTexture, LoadingManager, WebGLRenderer, sRGBEncoding } from 'three';
+import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js';
+import basisTranscoderUrl from 'three/examples/jsm/libs/basis/basis_transcoder.js?url';
+import basisTranscoderWasmUrl from 'three/examples/jsm/libs/basis/basis_transcoder.wasm?url';
+import { CompressedTextureFormat } from '../types';
+
+/** Width of a preview decoded from the full image, in pixels */
+const PREVIEW_SIZE = 256;
+
+/** Images smaller than this (bytes) skip the preview and decode directly */
+const PREVIEW_MIN_BYTES = 512 * 1024;
+
+export interface TextureLoadHandlers {
+  // Fraction of the full image downloaded, or null while its size is unknown
+  onProgress?: (progress: number | null) => void;
+  // A preview ready to show, owned by the caller; never called once the load
+  // has finished or failed
+  onPreview?: (texture: Texture) => void;
+}
+
+export interface TextureLoadOptions {
+  previewUrl?: string;
+  // Longest side of the final texture, in pixels
+  maxSize?: number;
+}
+
+export interface LoadedTexture {
+  texture: Texture;
+  // Pixel size of the source image, before any downscaling
+  pixels: { width: number; height: number };
+}
+
+export class TexturePipeline {
+  private renderer: WebGLRenderer;
+  private textureLoader = new TextureLoader();
+  // Created on the first KTX2 image, as it starts transcoder workers
+  private ktx2Loader?: KTX2Loader;
+
+  constructor(renderer: WebGLRenderer) {
+    this.renderer = renderer;
+  }
+
+  /**
+   * Load an image as a texture, previewing it first when worthwhile
+   */
+  async load(url: string, handlers: TextureLoadHandlers = {}, options: TextureLoadOptions = {}): Promise<LoadedTexture> {
+    const { previewUrl, maxSize } = options;
+
+    if (isKTX2(url)) {
+      return this.loadCompressed(url, handlers, maxSize);
+    }
+
+    // Without ImageBitmap decoding, fall back to a plain single-step load
+    if (typeof createImageBitmap === 'undefined') {
+      return this.loadDirect(url, handlers);
+    }
+
+    let isComplete = false;
+    const showPreview = (texture: Texture) => {
+      if (isComplete) {
+        disposeBitmapTexture(texture);
+      } else {
+        handlers.onPreview?.(texture);
+      }
+    };
+
+    if (previewUrl) {
+      this.download(previewUrl)
+        .then(blob => this.decode(blob))
+        .then(showPreview, error => console.warn('Artwork preview failed:', error));
+    }
+
+    try {
+      const blob = await this.download(url, handlers.onProgress);
+
+      if (!previewUrl && blob.size >= PREVIEW_MIN_BYTES) {
+        // Shown while the full image decodes and uploads
+        await this.decode(blob, PREVIEW_SIZE).then(showPreview, () => undefined);
+      }
+
+      return await this.decodeFull(url, blob, maxSize);
+    } finally {
+      isComplete = true;
+    }
+  }
+
+  /**
+   * Compressed format KTX2 images are transcoded to on this GPU
+   */
+  getCompressedFormat(): CompressedTextureFormat {
+    const { extensions, capabilities } = this.renderer;
+    if (extensions.has('WEBGL_compressed_texture_astc')) return 'astc';
+    if (extensions.has('EXT_texture_compression_bptc')) return 'bc7';
+    if (extensions.has('WEBGL_compressed_texture_etc')) return 'etc2';
+    if (extensions.has('WEBGL_compressed_texture_s3tc')) return 'bc3';
+    if (extensions.has('WEBGL_compressed_texture_pvrtc') || extensions.has('WEBKIT_WEBGL_compressed_texture_pvrtc')) return 'pvrtc';
+    // Three.js doesn't use ETC1 under WebGL 2
+    if (extensions.has('WEBGL_compressed_texture_etc1') && !capabilities.isWebGL2) return 'etc1';
+    return 'rgba';
+  }
+
+  /**
+   * Stop the transcoder workers
+   */
+  dispose(): void {
+    this.ktx2Loader?.dispose();
+    this.ktx2Loader = undefined;
+  }
+
+  /**
+   * Transcode a KTX2 image, keeping only the mip levels that fit `maxSize`
+   */
+  private async loadCompressed(url: string, handlers: TextureLoadHandlers, maxSize?: number): Promise<LoadedTexture> {
+    let texture: CompressedTexture;
+    try {
+      texture = await this.getKTX2Loader().loadAsync(url, event => {
+        handlers.onProgress?.(event.lengthComputable ? event.loaded / event.total : null);
+      });
+    } catch {
+      throw new Error(`Could not load compressed image ${url}`);
+    }
+
+    const image = texture.image as { width: number; height: number };
+    const pixels = { width: image.width, height: image.height };
+
+    if (maxSize) {
+      const mipmaps = texture.mipmaps as { width: number; height: number }[];
+      const firstFitting = mipmaps.findIndex(level => Math.max(level.width, level.height) <= maxSize);
+      // Without smaller levels the image stays at full size
+      if (firstFitting > 0) {
+        texture.mipmaps = mipmaps.slice(firstFitting) as typeof texture.mipmaps;
+        texture.image = { ...texture.image, width: mipmaps[firstFitting].width, height: mipmaps[firstFitting].height };
+        texture.needsUpdate = true;
+      }
+    }
+
+    // KTX2 images start at the top-left and compressed textures can't be
+    // flipped on upload, so flip their texture coordinates instead
+    texture.repeat.y = -1;
+    texture.offset.y = 1;
+    return { texture, pixels };
+  }
+
+  private getKTX2Loader(): KTX2Loader {
+    if (!this.ktx2Loader) {
+      // The transcoder is bundled as hashed assets, not a directory of fixed names
+      const manager = new LoadingManager();
+      manager.setURLModifier(url => {
+        if (url === 'basis_transcoder.js') return basisTranscoderUrl;
+        if (url === 'basis_transcoder.wasm') return basisTranscoderWasmUrl;
+        return url;
+      });
+      this.ktx2Loader = new KTX2Loader(manager).detectSupport(this.renderer);
+    }
+    return this.ktx2Loader;
+  }
+
+  /**
+   * Fetch an image, reporting progress when the response says how large it is
+   */
+  private async download(url: string, onProgress?: (progress: number | null) => void): Promise<Blob> {
+    let response: Response;
+    try {
+      response = await fetch(url, { mode: 'cors' });
+    } catch {
+      throw new Error(`Could not download image ${url}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Could not download image ${url}: ${response.status} ${response.statusText}`);
+    }
+
+    const total = Number(response.headers.get('Content-Length')) || 0;
+    if (!onProgress || !response.body) {
+      return response.blob();
+    }
+
+    const reader = response.body.getReader();
+    const chunks: BlobPart[] = [];
+    let loaded = 0;
+    onProgress(total ? 0 : null);
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      loaded += value.length;
+      onProgress(total ? Math.min(loaded / total, 1) : null);
+    }
+
+    return new Blob(chunks, { type: response.headers.get('Content-Type') ?? '' });
+  }
+
+  /**
+   * Decode a full image, scaled down if its longest side is over `maxSize`
+   */
+  private async decodeFull(url: string, blob: Blob, maxSize?: number): Promise<LoadedTexture> {
+    try {
+      let bitmap = await createImageBitmap(blob, { imageOrientation: 'flipY', premultiplyAlpha: 'none' });
+      const pixels = { width: bitmap.width, height: bitmap.height };
+
+      const scale = maxSize ? Math.min(1, maxSize / Math.max(pixels.width, pixels.height)) : 1;
+      if (scale < 1) {
+        const resized = await createImageBitmap(bitmap, {
+          resizeWidth: Math.round(pixels.width * scale),
+          resizeHeight: Math.round(pixels.height * scale),
+          resizeQuality: 'high'
+        });
+        bitmap.close();
+        bitmap = resized;
+      }
+
+      return { texture: this.createTexture(bitmap), pixels };
+    } catch {
+      throw new Error(`Could not decode image ${url}`);
+    }
+  }
+
+  /**
+   * Decode an image, optionally scaled down so its width is at most `maxSize`
+   */
+  private async decode(blob: Blob, maxSize?: number): Promise<Texture> {
+    const bitmap = await createImageBitmap(blob, {
+      imageOrientation: 'flipY',
+      premultiplyAlpha: 'none',
+      ...(maxSize ? { resizeWidth: maxSize, resizeQuality: 'low' as const } : {})
+    });
+    return this.createTexture(bitmap);
+  }
+
+  private createTexture(bitmap: ImageBitmap): Texture {
+    const texture = new Texture(bitmap);
+    // The bitmap is already flipped; ImageBitmaps can't be flipped on upload
+    texture.flipY = false;
+    texture.encoding = sRGBEncoding;
+    texture.needsUpdate = true;
+    return texture;
+  }
+
+  private loadDirect(url: string, handlers: TextureLoadHandlers): Promise<LoadedTexture> {
+    return new Promise((resolve, reject) => {
+      this.textureLoader.load(
+        url,
+        (texture) => {
+          texture.encoding = sRGBEncoding;
+          const image = texture.image as { width: number; height: number };
+          resolve({ texture, pixels: { width: image.width, height: image.height } });
+        },
+        (event) => handlers.onProgress?.(event.lengthComputable ? event.loaded / event.total : null),
+        () => reject(new Error(`Could not load image ${url}`))
+      );
+    });
+  }
+}
+
+/**
+ * Dispose a texture and close the ImageBitmap it was decoded to, if any
+ */
+export function disposeBitmapTexture(texture: Texture): void {
+  texture.dispose();
+  if (typeof ImageBitmap !== 'undefined' && texture.image instanceof ImageBitmap) {
+    texture.image.close();
+  }
+}
+
+export function isKTX2(url: string): boolean {
+  return /\.ktx2$/i.test(url.split(/[?#]/)[0]);
+}
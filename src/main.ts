@@ -3,6 +3,8 @@
  */
 
 import { FramerlyAREngine } from './core/FramerlyAREngine';
+import { GestureController } from './core/GestureController';
+import { formatSize } from './core/MeasurementOverlay';
 import { ARMode, TrackingState } from './types';
 
 // UI elements
@@ -10,6 +12,12 @@ const statusText = document.getElementById('status-text') as HTMLElement;
 const trackingStatus = document.getElementById('tracking-status') as HTMLElement;
 const frameModeBtn = document.getElementById('frame-mode-btn') as HTMLButtonElement;
 const neonModeBtn = document.getElementById('neon-mode-btn') as HTMLButtonElement;
+const undoBtn = document.getElementById('undo-btn') as HTMLButtonElement;
+const redoBtn = document.getElementById('redo-btn') as HTMLButtonElement;
+const measureBtn = document.getElementById('measure-btn') as HTMLButtonElement;
+const unitsBtn = document.getElementById('units-btn') as HTMLButtonElement;
+const artworkBtn = document.getElementById('artwork-btn') as HTMLButtonElement;
+const artworkInput = document.getElementById('artwork-input') as HTMLInputElement;
 const loadingEl = document.getElementById('loading') as HTMLElement;
 const errorEl = document.getElementById('error-message') as HTMLElement;
 const canvas = document.getElementById('renderer') as HTMLCanvasElement;
@@ -17,9 +25,15 @@ const canvas = document.getElementById('renderer') as HTMLCanvasElement;
 // Global AR engine instance
 let arEngine: FramerlyAREngine;
 
+// Object gestures; owns canvas taps once AR is running
+let gestures: GestureController | undefined;
+
 // Track current mode even without AR engine
 let currentMode: ARMode = ARMode.FRAME;
 
+// Walls already announced as ready for placement
+const readyWalls = new Set<string>();
+
 /**
  * Initialize the AR engine and UI
  */
@@ -64,9 +78,13 @@ async function init() {
     
     // Setup AR-specific event handlers (pause/resume)
     setupAREventHandlers();
+    setupGestures();
     
     hideLoading();
     updateStatus('AR Ready - Tap to place objects');
+
+    // Bring back the layout from the last session, if any
+    restoreSavedLayout();
     
   } catch (error) {
     console.error('AR initialization failed:', error);
@@ -91,6 +109,11 @@ async function init() {
  */
 async function handleCanvasClick(x: number, y: number) {
   if (arEngine) {
+    if (arEngine.getMode() === ARMode.FRAME && !arEngine.getArtwork()) {
+      updateStatus('Choose an artwork first');
+      return;
+    }
+    
     // AR mode - use hit testing
     try {
       const objectId = await arEngine.handleTap(x, y);
@@ -128,7 +151,18 @@ function setupAREngineCallbacks() {
   
   arEngine.onPlaneDetected((plane) => {
     console.log('Plane detected:', plane);
-    updateStatus('Wall detected - Tap to place');
+    updateStatus(plane.isStable ? 'Wall ready - Tap to place' : 'Wall detected - Hold steady...');
+  });
+  
+  arEngine.onPlaneUpdated((plane) => {
+    if (plane.isStable && plane.orientation === 'vertical' && !readyWalls.has(plane.id)) {
+      readyWalls.add(plane.id);
+      updateStatus('Wall ready - Tap to place');
+    }
+  });
+  
+  arEngine.onPlaneRemoved((plane) => {
+    readyWalls.delete(plane.id);
   });
   
   arEngine.onObjectPlaced((object) => {
@@ -136,12 +170,102 @@ function setupAREngineCallbacks() {
     updateStatus(`${object.type} placed successfully`);
   });
   
+  arEngine.onPlacementRejected((rejection) => {
+    console.warn('Placement rejected:', rejection);
+    updateStatus(rejection.message);
+  });
+  
+  arEngine.onObjectConflict((conflict) => {
+    if (conflict.resolution === 'nudged') {
+      updateStatus('Moved to the nearest free spot');
+    } else if (conflict.resolution === 'rejected') {
+      updateStatus('No room there - objects would overlap');
+    }
+  });
+  
+  arEngine.onAnchorLost((object) => {
+    console.warn('Anchor lost for object:', object.id);
+    updateStatus(`${object.type} tracking degraded - following wall`);
+  });
+  
+  arEngine.onSceneRestored((objectIds) => {
+    if (objectIds.length > 0) {
+      updateStatus(`Restored ${objectIds.length} saved object${objectIds.length === 1 ? '' : 's'}`);
+    }
+  });
+  
+  arEngine.onSelectionChanged((object) => {
+    if (object) {
+      updateStatus(`${object.type} selected - drag to move, pinch to resize, twist to rotate`);
+    }
+  });
+  
+  arEngine.onArtworkChanged((artwork) => {
+    updateStatus(`${artwork.name ?? 'Artwork'} ready (${artwork.pixelWidth} × ${artwork.pixelHeight} px) - Tap a wall to hang it`);
+  });
+  
+  arEngine.onArtworkProgress((progress) => {
+    if (progress.stage === 'loading' && progress.progress !== null) {
+      updateStatus(`Loading artwork ${Math.round(progress.progress * 100)}%`);
+    } else if (progress.stage === 'error') {
+      updateStatus('Artwork failed to load');
+    }
+  });
+  
+  arEngine.onPrintQualityWarning((warning) => {
+    console.warn('Print quality:', warning);
+    updateStatus(warning.message);
+  });
+  
+  arEngine.onQualityChanged((change) => {
+    console.log(`Quality ${change.previousTier} → ${change.tier} at ${change.frameTime.toFixed(1)} ms/frame`);
+  });
+  
+  // Append ?debug to the URL to tune adaptive quality on a device
+  if (new URLSearchParams(location.search).has('debug')) {
+    arEngine.setQualityOverlayVisible(true);
+  }
+  
+  arEngine.onHistoryChanged((state) => {
+    undoBtn.disabled = !state.canUndo;
+    redoBtn.disabled = !state.canRedo;
+    undoBtn.title = state.undoLabel ? `Undo ${state.undoLabel}` : '';
+    redoBtn.title = state.redoLabel ? `Redo ${state.redoLabel}` : '';
+  });
+  
   arEngine.onError((error) => {
     console.error('AR Engine error:', error);
     showError(`AR Error: ${error.message}`);
   });
 }
 
+/**
+ * Route canvas pointer input through the gesture controller
+ */
+function setupGestures() {
+  gestures?.dispose();
+  gestures = new GestureController(canvas, arEngine);
+  
+  gestures.onTap((x, y) => {
+    handleCanvasClick(x, y);
+  });
+  
+  gestures.onSizeReadout((object, size) => {
+    updateStatus(`${object.type}: ${formatSize(size.width, size.height, arEngine.getUnits())}`);
+  });
+}
+
+/**
+ * Restore the autosaved layout; it is placed once a wall is detected
+ */
+async function restoreSavedLayout() {
+  try {
+    await arEngine.loadScene(FramerlyAREngine.AUTOSAVE_SLOT);
+  } catch (error) {
+    console.warn('Could not restore saved layout:', error);
+  }
+}
+
 /**
  * Setup basic UI event handlers (always available)
  */
@@ -155,8 +279,70 @@ function setupBasicUIEventHandlers() {
     setMode(ARMode.NEON);
   });
   
+  // Undo / redo
+  undoBtn.addEventListener('click', () => {
+    arEngine?.undo();
+  });
+  
+  redoBtn.addEventListener('click', () => {
+    arEngine?.redo();
+  });
+  
+  // Measurement overlay and units
+  measureBtn.addEventListener('click', () => {
+    if (!arEngine) return;
+    const enabled = !arEngine.isMeasurementModeEnabled();
+    arEngine.setMeasurementMode(enabled);
+    measureBtn.classList.toggle('active', enabled);
+  });
+  
+  unitsBtn.addEventListener('click', () => {
+    if (!arEngine) return;
+    const units = arEngine.getUnits() === 'cm' ? 'in' : 'cm';
+    arEngine.setUnits(units);
+    unitsBtn.textContent = units;
+  });
+  
+  document.addEventListener('keydown', (event) => {
+    if (!arEngine || !(event.ctrlKey || event.metaKey)) return;
+    
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault();
+      arEngine.undo();
+    } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+      event.preventDefault();
+      arEngine.redo();
+    }
+  });
+  
+  // Artwork picker
+  artworkBtn.addEventListener('click', () => {
+    artworkInput.click();
+  });
+  
+  artworkInput.addEventListener('change', async () => {
+    const file = artworkInput.files?.[0];
+    artworkInput.value = '';
+    if (!file) return;
+    
+    if (!arEngine) {
+      updateStatus(`${file.name} selected - Preview only (AR not available)`);
+      return;
+    }
+    
+    try {
+      await arEngine.setArtwork(file);
+    } catch {
+      updateStatus('Could not load that image - try another');
+    }
+  });
+  
   // Canvas tap for placement
   canvas.addEventListener('click', async (event) => {
+    // Taps are handled by the gesture controller once AR is running
+    if (gestures) return;
+    
     const rect = canvas.getBoundingClientRect();
     const x = event.clientX - rect.left;
     const y = event.clientY - rect.top;
@@ -338,9 +524,11 @@ function showManualARButton() {
       await arEngine.initialize();
       await arEngine.start();
       setupAREventHandlers();
+      setupGestures();
       
       hideLoading();
       updateStatus('AR Ready - Tap to place objects');
+      restoreSavedLayout();
     } catch (error) {
       console.error('Manual AR initialization failed:', error);
       showError('AR still not available. Using preview mode.');
@@ -401,6 +589,7 @@ function getARState() {
     mode: arEngine.getMode(),
     trackingState: arEngine.getTrackingState(),
     placedObjects: arEngine.getPlacedObjects(),
+    scene: arEngine.exportScene(),
     detectedPlanes: arEngine.getDetectedPlanes()
   };
 }
@@ -417,7 +606,8 @@ if (document.readyState === 'loading') {
 
 // Handle app cleanup
 window.addEventListener('beforeunload', () => {
+  gestures?.dispose();
   if (arEngine) {
-    arEngine.dispose();
+    arEngine.dispose().catch(error => console.warn('AR engine cleanup failed:', error));
   }
 }); 
\ No newline at end of file
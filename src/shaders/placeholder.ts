@@ -0,0 +1,30 @@
+/**
+ * Shimmer shader shown on artwork while its texture loads
+ */
+
+export const shimmerVertexShader = `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+export const shimmerFragmentShader = `
+  uniform vec3 baseColor;
+  uniform vec3 highlightColor;
+  uniform float time;
+  uniform float speed;
+
+  varying vec2 vUv;
+
+  void main() {
+    // Diagonal band sweeping across, pausing off-surface between passes
+    float position = fract(time * speed) * 2.0 - 0.5;
+    float distanceToBand = abs((vUv.x + vUv.y) * 0.5 - position);
+    float band = 1.0 - smoothstep(0.0, 0.15, distanceToBand);
+
+    gl_FragColor = vec4(mix(baseColor, highlightColor, band), 1.0);
+  }
+`;
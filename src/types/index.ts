@@ -23,9 +23,56 @@ export interface PlaneData {
   };
   polygon: Vector3[];
   orientation: 'horizontal' | 'vertical';
+  isStable: boolean;
   lastUpdate: number;
 }
 
+export interface HitPose {
+  position: Vector3;
+  orientation: Quaternion;
+  normal: Vector3;
+  planeId?: string;
+  // Anchor created at the hit pose, when the device supports anchors
+  anchor?: Promise<XRAnchor>;
+}
+
+export interface WallExtents {
+  planeId: string;
+  // Wall-space frame: u runs along `right`, v along `up` (gravity-aligned)
+  origin: Vector3;
+  right: Vector3;
+  up: Vector3;
+  normal: Vector3;
+  minU: number;
+  maxU: number;
+  minV: number;
+  maxV: number;
+  width: number;
+  height: number;
+}
+
+export type PlacementRejectionReason =
+  | 'overhangs-wall-edge'
+  | 'overhangs-floor'
+  | 'overhangs-ceiling'
+  | 'larger-than-wall'
+  | 'overlaps-object';
+
+export interface PlacementRejection {
+  objectType: ARMode;
+  planeId?: string;
+  reason: PlacementRejectionReason;
+  message: string;
+}
+
+export interface ObjectConflict {
+  objectId: string;
+  // Objects the placement or move would have overlapped
+  conflictingIds: string[];
+  planeId: string;
+  resolution: 'nudged' | 'rejected' | 'allowed';
+}
+
 export interface ARObject {
   id: string;
   type: ARMode;
@@ -34,19 +81,94 @@ export interface ARObject {
   scale: Vector3;
   isPlaced: boolean;
   planeId?: string;
+  // Set when the object's plane went away and no other plane could take it
+  isOrphaned?: boolean;
+  // Objects placed together (e.g. a gallery wall) share a group ID and move as one
+  groupId?: string;
   lastUpdate: number;
 }
 
 export interface FrameData extends ARObject {
   type: ARMode.FRAME;
   artworkUrl: string;
+  // Content hash of an uploaded artwork; its image is saved with the scene and
+  // `artworkUrl` is recreated from it, as object URLs don't outlive the page
+  artworkHash?: string;
+  // Small version of the artwork shown while the full image loads
+  artworkPreviewUrl?: string;
   frameStyle: string;
   frameColor: string;
+  // 'none' for no mat
   matColor: string;
+  // Top mat border per side in meters; defaults to a bottom-weighted border
+  matBorder?: MatBorder;
+  // Mats under the top one for double or triple matting, top to bottom
+  innerMats?: InnerMat[];
+  // Defaults to 'none'
+  glazing?: GlazingType;
+  // Source image size in pixels, once known
+  artworkPixels?: { width: number; height: number };
+  // Print resolution at the frame's current size, once the pixel size is known
+  printQuality?: PrintQuality;
   width: number;
   height: number;
 }
 
+export type GlazingType = 'none' | 'glass' | 'museum' | 'acrylic';
+
+export type PrintQualityLevel = 'excellent' | 'acceptable' | 'poor';
+
+export interface PrintQuality {
+  // Effective dots per inch at print size, limited by the lower of the two axes
+  dpi: number;
+  level: PrintQualityLevel;
+}
+
+export interface PrintQualityWarning {
+  objectId: string;
+  quality: PrintQuality;
+  message: string;
+}
+
+export type ArtworkSource = string | Blob | ImageBitmap;
+
+export interface ArtworkLoadProgress {
+  objectId: string;
+  stage: 'loading' | 'preview' | 'complete' | 'error';
+  // Fraction of the full image downloaded, 0 to 1; null while its size is unknown
+  progress: number | null;
+  error?: Error;
+}
+
+export interface ArtworkInfo {
+  // Loadable URL; an object URL for files, blobs and bitmaps
+  url: string;
+  source: 'url' | 'file' | 'bitmap';
+  // File name, when chosen from the user's files
+  name?: string;
+  // Content hash for files, blobs and bitmaps, when the browser can compute one
+  hash?: string;
+  // Image bytes for files, blobs and bitmaps
+  blob?: Blob;
+  pixelWidth: number;
+  pixelHeight: number;
+  // Width over height
+  aspectRatio: number;
+}
+
+export interface MatBorder {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface InnerMat {
+  color: string;
+  // Width showing inside the opening of the mat above, in meters
+  reveal: number;
+}
+
 export interface NeonData extends ARObject {
   type: ARMode.NEON;
   text: string;
@@ -56,6 +178,63 @@ export interface NeonData extends ARObject {
   fontFamily: string;
 }
 
+export interface FrameStyle {
+  name: string;
+  // Moulding cross-section from the sight edge (x = 0) to the outer edge (x = 1),
+  // with y the height off the wall (0) up to the frame's front (1); the back is closed automatically
+  profile: [number, number][];
+  // Moulding width and depth in meters
+  width: number;
+  depth: number;
+  rabbet: {
+    // How far the moulding overlaps the artwork's edge; negative leaves a floating gap
+    width: number;
+    // How far the artwork's face sits behind the frame's front
+    depth: number;
+  };
+  // Tinted by each frame's frameColor
+  material: {
+    metalness: number;
+    roughness: number;
+    clearcoat?: number;
+    clearcoatRoughness?: number;
+    // Finish texture (e.g. wood grain) tiled once per meter; KTX2 is transcoded on the GPU
+    map?: string;
+  };
+}
+
+export interface SerializedVector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface SerializedEuler extends SerializedVector3 {
+  order: string;
+}
+
+export type SerializedObject<T extends ARObject> = Omit<T, 'position' | 'rotation' | 'scale'> & {
+  position: SerializedVector3;
+  rotation: SerializedEuler;
+  scale: SerializedVector3;
+  // Column-major transform relative to the scene's reference wall, if one was known
+  wallTransform?: number[];
+};
+
+export type SerializedARObject = SerializedObject<FrameData> | SerializedObject<NeonData>;
+
+export interface SerializedScene {
+  version: number;
+  savedAt: number;
+  objects: SerializedARObject[];
+}
+
+export interface SavedSceneInfo {
+  slot: string;
+  savedAt: number;
+  objectCount: number;
+}
+
 export interface AIRecommendation {
   id: string;
   type: ARMode;
@@ -80,18 +259,162 @@ export interface NeonRecommendation {
   reasoning: string;
 }
 
+export type PoseFilterStrategyType = 'exponential' | 'oneEuro' | 'kalman';
+
+export interface OneEuroFilterOptions {
+  minCutoff: number;
+  beta: number;
+  derivativeCutoff: number;
+}
+
+// Applies to position only; rotation is smoothed by `rotationSmoothingFactor`
+export interface KalmanFilterOptions {
+  processNoise: number;
+  measurementNoise: number;
+}
+
 export interface PoseFilterOptions {
+  strategy: PoseFilterStrategyType;
   positionSmoothingFactor: number;
   rotationSmoothingFactor: number;
   maxJitterThreshold: number;
   stabilizationTime: number;
+  outlierDistance: number;
+  oneEuro: OneEuroFilterOptions;
+  kalman: KalmanFilterOptions;
+  clock?: () => number;
 }
 
+export interface PlacementOptions {
+  // What to do with objects that would hang past the wall, floor or ceiling
+  overhangPolicy: 'reject' | 'clamp';
+  // What to do with objects that would overlap others on the same wall
+  overlapPolicy: 'nudge' | 'reject' | 'allow';
+}
+
+export type GalleryTemplate = 'grid' | 'salon' | 'staircase' | 'row';
+
+export interface GalleryArtwork {
+  artworkUrl: string;
+  // Artwork size in meters, without the frame
+  width: number;
+  height: number;
+  frameStyle?: string;
+  frameColor?: string;
+  matColor?: string;
+  matBorder?: MatBorder;
+  innerMats?: InnerMat[];
+  glazing?: GlazingType;
+}
+
+export interface GalleryLayoutOptions {
+  template: GalleryTemplate;
+  // Space between neighbouring frames in meters; defaults to the gallery config
+  gap?: number;
+  // Grid column count; defaults to a roughly square grid
+  columns?: number;
+  // Rise between neighbouring staircase frames in meters
+  stepHeight?: number;
+  // Height of the layout's center above the floor; defaults to the gallery config
+  centerHeight?: number;
+}
+
+export interface GalleryOptions {
+  // Height of a gallery's center above the floor, in meters
+  eyeLevelHeight: number;
+  defaultGap: number;
+}
+
+export interface SnappingOptions {
+  enabled: boolean;
+  // Snap when within this distance of a guide, in meters
+  threshold: number;
+  // Standard hanging height: object center above the floor, in meters
+  hangingHeight: number;
+}
+
+export interface PrintQualityOptions {
+  // At or above this DPI a print is rated excellent
+  excellentDpi: number;
+  // Below this DPI a print is rated poor and a warning is raised
+  minimumDpi: number;
+}
+
+export interface TextureCacheOptions {
+  // GPU memory artwork textures may use before unused ones are evicted, in megabytes
+  memoryBudgetMB: number;
+  // Longest side, in pixels, larger images are downscaled to
+  maxTextureSize: number;
+}
+
+/** GPU texture format KTX2 images are transcoded to, best first */
+export type CompressedTextureFormat = 'astc' | 'bc7' | 'etc2' | 'bc3' | 'pvrtc' | 'etc1' | 'rgba';
+
+export interface TextureStats {
+  // Textures currently cached, in use or not
+  textures: number;
+  // Their estimated GPU memory, and the budget it's kept within
+  bytes: number;
+  budgetBytes: number;
+  compressedFormat: CompressedTextureFormat;
+}
+
+export type QualityTierName = 'low' | 'medium' | 'high';
+
+export interface QualitySettings {
+  // Upper limit on device pixels per CSS pixel
+  pixelRatio: number;
+  // WebXR render resolution relative to the display's; changes within a session
+  // where views can be scaled, otherwise from the next session
+  xrFramebufferScale: number;
+  // Shadow map width and height in pixels; 0 turns shadows off
+  shadowMapSize: number;
+  neonHalos: boolean;
+  // 'reduced' renders glazing without transmission
+  glazing: 'full' | 'reduced';
+  // Longest side of textures loaded from now on, in pixels
+  maxTextureSize: number;
+}
+
+export interface QualityTier {
+  name: QualityTierName;
+  settings: QualitySettings;
+}
+
+export interface QualityChange {
+  tier: QualityTierName;
+  previousTier: QualityTierName;
+  // Smoothed time between frames that triggered the change, in ms
+  frameTime: number;
+}
+
+export interface HistoryOptions {
+  // Number of undo steps kept; older steps are dropped
+  maxDepth: number;
+}
+
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+}
+
+export type MeasurementUnit = 'cm' | 'in';
+
 export interface AREngineConfig {
   enablePlaneVisualization: boolean;
   maxPlanes: number;
   trackingUpdateRate: number;
   poseFilter: PoseFilterOptions;
+  placement: PlacementOptions;
+  history: HistoryOptions;
+  gallery: GalleryOptions;
+  snapping: SnappingOptions;
+  printQuality: PrintQualityOptions;
+  textures: TextureCacheOptions;
+  // Units for all displayed lengths
+  units: MeasurementUnit;
   rendering: {
     shadowsEnabled: boolean;
     environmentLighting: boolean;